@@ -3,7 +3,7 @@
  *
  * This class manages the entire bot lifecycle:
  * - Creates Discord client with required intents
- * - Registers event handlers (thread create, message create, thread update)
+ * - Registers event handlers (thread create/update/delete, message create/update/delete)
  * - Handles bot startup and shutdown
  *
  * Architecture: Event-driven
@@ -11,16 +11,36 @@
  * No shared state, clean separation of concerns.
  */
 
-import { Client, Events, GatewayIntentBits } from 'discord.js';
+import { Client, Events, GatewayIntentBits, Partials } from 'discord.js';
 import { registerSlashCommands } from './commands/register.js';
 import { env } from './config/env.js';
 import { handleInteractionCreate } from './handlers/interaction-create.handler.js';
 import { handleMessageCreate } from './handlers/message-create.handler.js';
+import { handleMessageBulkDelete, handleMessageDelete } from './handlers/message-delete.handler.js';
+import { handleMessageUpdate } from './handlers/message-update.handler.js';
 import { handleReady } from './handlers/ready.handler.js';
 import { handleThreadCreate } from './handlers/thread-create.handler.js';
+import { handleThreadDelete } from './handlers/thread-delete.handler.js';
 import { handleThreadUpdate } from './handlers/thread-update.handler.js';
+import { scheduleConversationSync } from './services/conversation-sync.service.js';
+import { outboxService } from './services/outbox.service.js';
+import { reverseSyncService } from './services/reverse-sync.service.js';
+import { withCorrelationId } from './utils/correlation.js';
+import { recordEventReceived } from './utils/event-activity.js';
 import { logger } from './utils/logger.js';
 
+/** Events whose last arrival is reported on /health/details */
+const TRACKED_EVENTS = [
+  Events.ThreadCreate,
+  Events.ThreadUpdate,
+  Events.ThreadDelete,
+  Events.MessageCreate,
+  Events.MessageUpdate,
+  Events.MessageDelete,
+  Events.MessageBulkDelete,
+  Events.InteractionCreate,
+] as const;
+
 export class DiscordBot {
   private client: Client;
 
@@ -31,6 +51,8 @@ export class DiscordBot {
         GatewayIntentBits.GuildMessages,
         GatewayIntentBits.MessageContent,
       ],
+      // Deletions of uncached messages are only delivered as partials
+      partials: [Partials.Message],
     });
 
     this.registerEventHandlers();
@@ -42,17 +64,34 @@ export class DiscordBot {
    * This is where the magic happens! We listen to key Discord events:
    *
    * 1. ThreadCreate     → New forum post → Create Usable fragment
-   * 2. ThreadUpdate     → Tags/title change → Sync to Usable
+   * 2. ThreadUpdate     → Tags/title/archive/lock change → Sync to Usable
+   *    ThreadDelete     → Thread deleted → Mark fragment as deleted
    * 3. MessageCreate    → Reply added → Update fragment (when API is fixed)
-   * 4. InteractionCreate → Slash commands → Manual sync operations
+   * 4. MessageUpdate / MessageDelete / MessageBulkDelete → Edits and deletions → Re-render fragment
+   * 5. InteractionCreate → Slash commands → Manual sync operations
    *
    * Each handler is independent - no shared state, easy to test!
+   * Each event runs with its own correlation ID, stamped on every log line.
    */
   private registerEventHandlers(): void {
+    // Remember when each event was last received, for diagnostics
+    for (const event of TRACKED_EVENTS) {
+      this.client.on(event, () => recordEventReceived(event));
+    }
+
     // Ready event - fires once when bot successfully connects
     this.client.once(Events.ClientReady, async (client) => {
       handleReady(client);
 
+      // Start retrying failed Usable writes; once a queued create lands,
+      // catch the fragment up on replies posted in the meantime
+      outboxService.start(client, {
+        onFragmentCreated: (thread, fragmentId) => scheduleConversationSync(thread, fragmentId),
+      });
+
+      // Reflect changes made in Usable back into the threads
+      reverseSyncService.start(client);
+
       // Register slash commands after bot is ready
       try {
         await registerSlashCommands();
@@ -64,25 +103,47 @@ export class DiscordBot {
     // Thread create event - fires when a new forum thread is created
     // This is the main entry point: creates the Usable fragment
     this.client.on(Events.ThreadCreate, async (thread) => {
-      await handleThreadCreate(thread);
+      await withCorrelationId(() => handleThreadCreate(thread));
     });
 
     // Thread update event - fires when thread properties change
     // Syncs Discord tags and title changes to Usable
     this.client.on(Events.ThreadUpdate, async (oldThread, newThread) => {
-      await handleThreadUpdate(oldThread, newThread);
+      await withCorrelationId(() => handleThreadUpdate(oldThread, newThread));
+    });
+
+    // Thread delete event - fires when a forum thread is deleted
+    // Marks the fragment as deleted (the fragment itself is kept)
+    this.client.on(Events.ThreadDelete, async (thread) => {
+      await withCorrelationId(() => handleThreadDelete(thread));
     });
 
     // Message create event - fires when a new message is sent
     // Tracks replies for fragment updates (database-free tracking!)
     this.client.on(Events.MessageCreate, async (message) => {
-      await handleMessageCreate(message);
+      await withCorrelationId(() => handleMessageCreate(message));
+    });
+
+    // Message update event - fires when a message is edited
+    // Re-renders the fragment (including edits to the starter post)
+    this.client.on(Events.MessageUpdate, async (oldMessage, newMessage) => {
+      await withCorrelationId(() => handleMessageUpdate(oldMessage, newMessage));
+    });
+
+    // Message delete events - fire when one or many messages are deleted
+    // Removes the deleted messages from the fragment conversation
+    this.client.on(Events.MessageDelete, async (message) => {
+      await withCorrelationId(() => handleMessageDelete(message));
+    });
+
+    this.client.on(Events.MessageBulkDelete, async (messages, channel) => {
+      await withCorrelationId(() => handleMessageBulkDelete(messages, channel));
     });
 
     // Interaction create event - fires when a slash command is used
     // Allows moderators to manually trigger sync operations
     this.client.on(Events.InteractionCreate, async (interaction) => {
-      await handleInteractionCreate(interaction);
+      await withCorrelationId(() => handleInteractionCreate(interaction));
     });
 
     // Error handling
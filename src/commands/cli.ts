@@ -0,0 +1,110 @@
+/**
+ * 🛠️ Slash Command CLI
+ *
+ * Register, diff or clear slash commands without starting the bot:
+ *
+ *   bun run commands register [--global] [--guild <id>]... [--force]
+ *   bun run commands diff     [--global] [--guild <id>]...
+ *   bun run commands clear    [--global] [--guild <id>]...
+ *
+ * Without --global/--guild the configured scopes are used (DISCORD_DEV_GUILD_IDS,
+ * or global when unset). `clear` always needs an explicit scope.
+ *
+ * Exit codes: 0 on success, 1 on failure, 2 on bad usage.
+ */
+
+import { parseArgs } from 'node:util';
+import type { CommandDiff } from './diff.js';
+import {
+  type CommandScope,
+  clearSlashCommands,
+  diffSlashCommands,
+  formatScope,
+  getConfiguredScopes,
+  registerSlashCommands,
+} from './register.js';
+
+const USAGE =
+  'Usage: bun run commands <register|diff|clear> [--global] [--guild <id>]... [--force]';
+
+async function main(): Promise<number> {
+  let parsed: ReturnType<typeof parseCliArgs>;
+  try {
+    parsed = parseCliArgs();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(USAGE);
+    return 2;
+  }
+
+  const { positionals, values } = parsed;
+  const [action] = positionals;
+  const explicitScopes: CommandScope[] = [
+    ...(values.global ? [{ type: 'global' } as const] : []),
+    ...(values.guild ?? []).map((guildId) => ({ type: 'guild' as const, guildId })),
+  ];
+  const scopes = explicitScopes.length > 0 ? explicitScopes : getConfiguredScopes();
+
+  try {
+    switch (action) {
+      case 'register': {
+        const results = await registerSlashCommands({ scopes, force: values.force });
+        for (const { scope, diff, updated } of results) {
+          console.log(
+            `${formatScope(scope)}: ${updated ? 'registered' : 'unchanged'} (${describeDiff(diff)})`
+          );
+        }
+        return 0;
+      }
+      case 'diff': {
+        const results = await diffSlashCommands(scopes);
+        for (const { scope, diff } of results) {
+          console.log(`${formatScope(scope)}: ${describeDiff(diff)}`);
+        }
+        return 0;
+      }
+      case 'clear': {
+        if (explicitScopes.length === 0) {
+          console.error('clear needs --global and/or --guild <id>');
+          console.error(USAGE);
+          return 2;
+        }
+        await clearSlashCommands(explicitScopes);
+        for (const scope of explicitScopes) {
+          console.log(`${formatScope(scope)}: cleared`);
+        }
+        return 0;
+      }
+      default:
+        console.error(action ? `Unknown action: ${action}` : 'Missing action');
+        console.error(USAGE);
+        return 2;
+    }
+  } catch (error) {
+    console.error(`❌ ${action} failed:`, error instanceof Error ? error.message : error);
+    return 1;
+  }
+}
+
+function parseCliArgs() {
+  return parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      global: { type: 'boolean', default: false },
+      guild: { type: 'string', multiple: true },
+      force: { type: 'boolean', default: false },
+    },
+  });
+}
+
+function describeDiff(diff: CommandDiff): string {
+  const parts = [
+    ...diff.added.map((name) => `+${name}`),
+    ...diff.changed.map((name) => `~${name}`),
+    ...diff.removed.map((name) => `-${name}`),
+  ];
+  return parts.length > 0 ? parts.join(' ') : 'no changes';
+}
+
+process.exit(await main());
@@ -0,0 +1,113 @@
+/**
+ * 🔍 Slash Command Diffing
+ *
+ * Compares the bot's command definitions with the ones Discord has, so
+ * registration can skip the PUT when nothing changed (a global PUT takes up
+ * to an hour to propagate and counts against a tight rate limit).
+ *
+ * Discord echoes commands back with extra fields (IDs, versions) and leaves
+ * out defaults, so both sides are reduced to the fields we set, with
+ * Discord's defaults filled in, before comparing.
+ */
+
+/** The parts of a command definition (local JSON or Discord's copy) we compare */
+interface CommandDefinition {
+  name: string;
+  type?: number;
+  description?: string;
+  default_member_permissions?: string | null;
+  dm_permission?: boolean | null;
+  nsfw?: boolean;
+  options?: readonly OptionDefinition[];
+}
+
+interface OptionDefinition {
+  type: number;
+  name: string;
+  description: string;
+  required?: boolean;
+  autocomplete?: boolean;
+  choices?: readonly { name: string; value: string | number }[];
+  channel_types?: readonly number[];
+  min_value?: number;
+  max_value?: number;
+  min_length?: number;
+  max_length?: number;
+  options?: readonly OptionDefinition[];
+}
+
+export interface CommandDiff {
+  /** Defined locally but not registered */
+  added: string[];
+  /** Registered but no longer defined */
+  removed: string[];
+  /** Registered with a different definition */
+  changed: string[];
+}
+
+/**
+ * Compare local command definitions with the registered ones
+ *
+ * Guild commands have no DM setting, so it's ignored for them.
+ */
+export function diffCommands(
+  local: readonly CommandDefinition[],
+  registered: readonly CommandDefinition[],
+  options: { guildScoped?: boolean } = {}
+): CommandDiff {
+  const registeredByName = new Map(registered.map((command) => [command.name, command]));
+  const localNames = new Set(local.map((command) => command.name));
+  const diff: CommandDiff = { added: [], removed: [], changed: [] };
+
+  for (const command of local) {
+    const current = registeredByName.get(command.name);
+    if (!current) {
+      diff.added.push(command.name);
+    } else if (
+      JSON.stringify(normalizeCommand(command, options.guildScoped)) !==
+      JSON.stringify(normalizeCommand(current, options.guildScoped))
+    ) {
+      diff.changed.push(command.name);
+    }
+  }
+
+  diff.removed = registered.map((command) => command.name).filter((name) => !localNames.has(name));
+
+  return diff;
+}
+
+/**
+ * Whether a diff calls for re-registering
+ */
+export function hasChanges(diff: CommandDiff): boolean {
+  return diff.added.length + diff.removed.length + diff.changed.length > 0;
+}
+
+function normalizeCommand(command: CommandDefinition, guildScoped = false) {
+  return {
+    type: command.type ?? 1,
+    name: command.name,
+    description: command.description ?? '',
+    default_member_permissions: command.default_member_permissions ?? null,
+    dm_permission: guildScoped ? null : (command.dm_permission ?? true),
+    nsfw: command.nsfw ?? false,
+    options: (command.options ?? []).map(normalizeOption),
+  };
+}
+
+function normalizeOption(option: OptionDefinition): unknown {
+  return {
+    type: option.type,
+    name: option.name,
+    description: option.description,
+    required: option.required ?? false,
+    autocomplete: option.autocomplete ?? false,
+    choices: (option.choices ?? []).map(({ name, value }) => ({ name, value })),
+    channel_types: [...(option.channel_types ?? [])].sort((a, b) => a - b),
+    min_value: option.min_value ?? null,
+    max_value: option.max_value ?? null,
+    min_length: option.min_length ?? null,
+    max_length: option.max_length ?? null,
+    options: (option.options ?? []).map(normalizeOption),
+  };
+}
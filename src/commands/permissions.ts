@@ -0,0 +1,56 @@
+/**
+ * 🔐 Command Permission Defaults
+ *
+ * The Discord permission each command requires unless a guild changes it
+ * with `/permissions` (see services/command-permission.service.ts). Commands
+ * missing here - e.g. newly added ones - require FALLBACK_PERMISSION.
+ *
+ * `/permissions` itself always requires Manage Server, so nobody can lock
+ * admins out or grant themselves access.
+ */
+
+import type { PermissionFlagsBits } from 'discord.js';
+
+/** Permissions a command can be gated on (in increasing order of privilege) */
+export const COMMAND_PERMISSIONS = [
+  'ManageMessages',
+  'ManageThreads',
+  'ManageChannels',
+  'ManageGuild',
+  'Administrator',
+] as const satisfies readonly (keyof typeof PermissionFlagsBits)[];
+
+export type CommandPermission = (typeof COMMAND_PERMISSIONS)[number];
+
+/** Name of the command that manages the policy (not configurable itself) */
+export const PERMISSIONS_COMMAND = 'permissions';
+
+export const FALLBACK_PERMISSION: CommandPermission = 'ManageMessages';
+
+export const DEFAULT_COMMAND_PERMISSIONS: Record<string, CommandPermission> = {
+  'sync-forum': 'ManageMessages',
+  'sync-all-tracked': 'ManageMessages',
+  'list-tracked': 'ManageMessages',
+  'track-forum': 'ManageGuild',
+  'link-fragment': 'ManageMessages',
+  'unlink-fragment': 'ManageMessages',
+  'usable-search': 'ManageMessages',
+  'audit-channel': 'ManageGuild',
+  [PERMISSIONS_COMMAND]: 'ManageGuild',
+};
+
+/**
+ * The permission a command requires by default
+ */
+export function getDefaultPermission(command: string): CommandPermission {
+  return DEFAULT_COMMAND_PERMISSIONS[command] ?? FALLBACK_PERMISSION;
+}
+
+/**
+ * Human-readable name of a permission (e.g. "Manage Messages")
+ */
+export function formatPermission(permission: CommandPermission): string {
+  return permission === 'ManageGuild'
+    ? 'Manage Server'
+    : permission.replace(/([a-z])([A-Z])/g, '$1 $2');
+}
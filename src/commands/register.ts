@@ -2,17 +2,36 @@
  * 📝 Slash Command Registration
  *
  * Registers Discord slash commands with the Discord API.
- * Commands are registered globally and available in all servers the bot is in.
+ * Commands are registered globally and available in all servers the bot is in,
+ * unless DISCORD_DEV_GUILD_IDS is set - then they're registered to just those
+ * guilds, where changes show up immediately.
+ *
+ * Before each PUT the registered commands are fetched and diffed against the
+ * local definitions (see diff.ts); unchanged scopes are left alone. The same
+ * functions back the standalone CLI in cli.ts.
+ *
+ * Commands are visible to every member; who may actually run them is decided
+ * by the guild's permission policy (see services/command-permission.service.ts).
+ * Only `/permissions` keeps a Discord-side default (Manage Server).
  */
 
-import { PermissionFlagsBits, REST, Routes, SlashCommandBuilder } from 'discord.js';
+import {
+  ChannelType,
+  PermissionFlagsBits,
+  REST,
+  type RESTGetAPIApplicationCommandsResult,
+  Routes,
+  SlashCommandBuilder,
+} from 'discord.js';
 import { env } from '../config/env.js';
 import { logger } from '../utils/logger.js';
+import { type CommandDiff, diffCommands, hasChanges } from './diff.js';
+import { COMMAND_PERMISSIONS, PERMISSIONS_COMMAND, formatPermission } from './permissions.js';
 
 /**
  * Define slash commands
  */
-const commands = [
+const policyCommands = [
   // /sync-forum - Sync a specific thread by ID
   new SlashCommandBuilder()
     .setName('sync-forum')
@@ -29,7 +48,6 @@ const commands = [
         .setDescription('Force reprocess even if already synced (default: false)')
         .setRequired(false)
     )
-    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
     .setDMPermission(false),
 
   // /sync-all-tracked - Sync all tracked forums
@@ -64,41 +82,339 @@ const commands = [
         .setDescription('Preview what would be synced without actually doing it (default: false)')
         .setRequired(false)
     )
-    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
     .setDMPermission(false),
 
   // /list-tracked - Show configured forums
   new SlashCommandBuilder()
     .setName('list-tracked')
     .setDescription('List all forums configured for tracking')
-    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
     .setDMPermission(false),
-].map((command) => command.toJSON());
+
+  // /track-forum - Change which forums are tracked (admins only)
+  new SlashCommandBuilder()
+    .setName('track-forum')
+    .setDescription('Add, remove or change the fragment type of a tracked forum')
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('add')
+        .setDescription('Start tracking a forum')
+        .addChannelOption((option) =>
+          option
+            .setName('forum')
+            .setDescription('Forum channel to track')
+            .addChannelTypes(ChannelType.GuildForum)
+            .setRequired(true)
+        )
+        .addStringOption((option) =>
+          option
+            .setName('fragment_type')
+            .setDescription('Usable fragment type UUID for posts in this forum')
+            .setRequired(true)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('remove')
+        .setDescription('Stop tracking a forum')
+        .addChannelOption((option) =>
+          option
+            .setName('forum')
+            .setDescription('Forum channel to stop tracking')
+            .addChannelTypes(ChannelType.GuildForum)
+            .setRequired(true)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('set-type')
+        .setDescription("Change a tracked forum's fragment type")
+        .addChannelOption((option) =>
+          option
+            .setName('forum')
+            .setDescription('Tracked forum channel')
+            .addChannelTypes(ChannelType.GuildForum)
+            .setRequired(true)
+        )
+        .addStringOption((option) =>
+          option
+            .setName('fragment_type')
+            .setDescription('New Usable fragment type UUID')
+            .setRequired(true)
+        )
+    )
+    .setDMPermission(false),
+
+  // /audit-channel - Where moderator activity is posted (admins only)
+  new SlashCommandBuilder()
+    .setName('audit-channel')
+    .setDescription('Set or clear the channel where moderator activity is posted')
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('set')
+        .setDescription('Post privileged commands and fragment failures to a channel')
+        .addChannelOption((option) =>
+          option
+            .setName('channel')
+            .setDescription('Text channel for audit entries')
+            .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement)
+            .setRequired(true)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand.setName('clear').setDescription('Stop posting audit entries')
+    )
+    .setDMPermission(false),
+
+  // /link-fragment - Attach an existing fragment to the current thread
+  new SlashCommandBuilder()
+    .setName('link-fragment')
+    .setDescription('Link the current thread to an existing Usable fragment')
+    .addStringOption((option) =>
+      option.setName('fragment_id').setDescription('Usable fragment UUID').setRequired(true)
+    )
+    .setDMPermission(false),
+
+  // /unlink-fragment - Stop syncing the current thread
+  new SlashCommandBuilder()
+    .setName('unlink-fragment')
+    .setDescription('Detach the current thread from its Usable fragment (stops syncing)')
+    .setDMPermission(false),
+
+  // /usable-search - Search Usable fragments
+  new SlashCommandBuilder()
+    .setName('usable-search')
+    .setDescription('Search Usable fragments (e.g. to check if an issue is already known)')
+    .addStringOption((option) =>
+      option.setName('query').setDescription('Text to search for').setRequired(true)
+    )
+    .addStringOption((option) =>
+      option
+        .setName('type')
+        .setDescription('Only fragments of this fragment type (UUID)')
+        .setRequired(false)
+    )
+    .addStringOption((option) =>
+      option
+        .setName('tag')
+        .setDescription('Only fragments with this tag (e.g. discord-tag:bug)')
+        .setRequired(false)
+    )
+    .setDMPermission(false),
+];
+
+/** Commands covered by the guild permission policy (all but /permissions) */
+export const POLICY_COMMAND_NAMES = policyCommands.map(({ name }) => name);
+
+/** Choices for the `command` option of /permissions */
+const commandChoices = POLICY_COMMAND_NAMES.map((name) => ({ name: `/${name}`, value: name }));
+
+// /permissions - Who may run each command (admins only, not configurable itself)
+const permissionsCommand = new SlashCommandBuilder()
+  .setName(PERMISSIONS_COMMAND)
+  .setDescription('View or change which roles and permissions can run each bot command')
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('view')
+      .setDescription('Show who can run the bot commands')
+      .addStringOption((option) =>
+        option
+          .setName('command')
+          .setDescription('Only this command (default: all)')
+          .addChoices(...commandChoices)
+          .setRequired(false)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('allow-role')
+      .setDescription('Let a role run a command')
+      .addStringOption((option) =>
+        option
+          .setName('command')
+          .setDescription('Command')
+          .addChoices(...commandChoices)
+          .setRequired(true)
+      )
+      .addRoleOption((option) =>
+        option.setName('role').setDescription('Role to allow').setRequired(true)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('remove-role')
+      .setDescription('Stop letting a role run a command')
+      .addStringOption((option) =>
+        option
+          .setName('command')
+          .setDescription('Command')
+          .addChoices(...commandChoices)
+          .setRequired(true)
+      )
+      .addRoleOption((option) =>
+        option.setName('role').setDescription('Role to remove').setRequired(true)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('set-permission')
+      .setDescription('Change the Discord permission that also allows a command')
+      .addStringOption((option) =>
+        option
+          .setName('command')
+          .setDescription('Command')
+          .addChoices(...commandChoices)
+          .setRequired(true)
+      )
+      .addStringOption((option) =>
+        option
+          .setName('permission')
+          .setDescription('Required permission ("none": allowed roles only)')
+          .addChoices(
+            ...COMMAND_PERMISSIONS.map((permission) => ({
+              name: formatPermission(permission),
+              value: permission,
+            })),
+            { name: 'None (allowed roles only)', value: 'none' }
+          )
+          .setRequired(true)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('reset')
+      .setDescription("Go back to a command's default permissions")
+      .addStringOption((option) =>
+        option
+          .setName('command')
+          .setDescription('Command')
+          .addChoices(...commandChoices)
+          .setRequired(true)
+      )
+  )
+  .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+  .setDMPermission(false);
+
+const commands = [...policyCommands, permissionsCommand].map((command) => command.toJSON());
+
+export type CommandScope = { type: 'global' } | { type: 'guild'; guildId: string };
+
+export interface RegistrationResult {
+  scope: CommandScope;
+  diff: CommandDiff;
+  /** Whether the commands were PUT (false when nothing changed) */
+  updated: boolean;
+}
+
+/**
+ * The scopes to register in: the dev guilds when configured, otherwise global
+ */
+export function getConfiguredScopes(): CommandScope[] {
+  if (env.DISCORD_DEV_GUILD_IDS.length > 0) {
+    return env.DISCORD_DEV_GUILD_IDS.map((guildId) => ({ type: 'guild', guildId }));
+  }
+  return [{ type: 'global' }];
+}
+
+/**
+ * Describe a scope for logs and CLI output
+ */
+export function formatScope(scope: CommandScope): string {
+  return scope.type === 'global' ? 'global' : `guild ${scope.guildId}`;
+}
 
 /**
  * Register slash commands with Discord
+ *
+ * Scopes whose registered commands already match are skipped unless `force`
+ * is set.
  */
-export async function registerSlashCommands(): Promise<void> {
-  try {
-    logger.info('Registering slash commands...', {
-      commandCount: commands.length,
-      commands: commands.map((c) => c.name),
-    });
-
-    const rest = new REST({ version: '10' }).setToken(env.DISCORD_BOT_TOKEN);
-
-    // Register commands globally
-    await rest.put(Routes.applicationCommands(env.DISCORD_CLIENT_ID), {
-      body: commands,
-    });
-
-    logger.info('Successfully registered slash commands', {
-      commandCount: commands.length,
-    });
-  } catch (error) {
-    logger.error('Failed to register slash commands', {
-      error: error instanceof Error ? error.message : String(error),
-    });
-    throw error;
+export async function registerSlashCommands(
+  options: { scopes?: CommandScope[]; force?: boolean } = {}
+): Promise<RegistrationResult[]> {
+  const { scopes = getConfiguredScopes(), force = false } = options;
+  const rest = createRest();
+  const results: RegistrationResult[] = [];
+
+  for (const scope of scopes) {
+    try {
+      const diff = await diffScope(rest, scope);
+
+      if (!force && !hasChanges(diff)) {
+        logger.info('Slash commands unchanged, skipping registration', {
+          scope: formatScope(scope),
+          commandCount: commands.length,
+        });
+        results.push({ scope, diff, updated: false });
+        continue;
+      }
+
+      logger.info('Registering slash commands...', {
+        scope: formatScope(scope),
+        commandCount: commands.length,
+        commands: commands.map((c) => c.name),
+        ...diff,
+      });
+
+      await rest.put(getCommandsRoute(scope), { body: commands });
+
+      logger.info('Successfully registered slash commands', {
+        scope: formatScope(scope),
+        commandCount: commands.length,
+      });
+      results.push({ scope, diff, updated: true });
+    } catch (error) {
+      logger.error('Failed to register slash commands', {
+        scope: formatScope(scope),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
   }
+
+  return results;
+}
+
+/**
+ * Compare the local commands with the ones registered in each scope
+ */
+export async function diffSlashCommands(
+  scopes: CommandScope[] = getConfiguredScopes()
+): Promise<{ scope: CommandScope; diff: CommandDiff }[]> {
+  const rest = createRest();
+  const results: { scope: CommandScope; diff: CommandDiff }[] = [];
+  for (const scope of scopes) {
+    results.push({ scope, diff: await diffScope(rest, scope) });
+  }
+  return results;
+}
+
+/**
+ * Remove every registered command in each scope
+ *
+ * Useful after switching to dev guilds, so global and guild copies of the
+ * same command don't both show up.
+ */
+export async function clearSlashCommands(scopes: CommandScope[]): Promise<void> {
+  const rest = createRest();
+  for (const scope of scopes) {
+    await rest.put(getCommandsRoute(scope), { body: [] });
+    logger.info('Cleared slash commands', { scope: formatScope(scope) });
+  }
+}
+
+function createRest(): REST {
+  return new REST({ version: '10' }).setToken(env.DISCORD_BOT_TOKEN);
+}
+
+function getCommandsRoute(scope: CommandScope) {
+  return scope.type === 'global'
+    ? Routes.applicationCommands(env.DISCORD_CLIENT_ID)
+    : Routes.applicationGuildCommands(env.DISCORD_CLIENT_ID, scope.guildId);
+}
+
+async function diffScope(rest: REST, scope: CommandScope): Promise<CommandDiff> {
+  const registered = (await rest.get(
+    getCommandsRoute(scope)
+  )) as RESTGetAPIApplicationCommandsResult;
+  return diffCommands(commands, registered, { guildScoped: scope.type === 'guild' });
 }
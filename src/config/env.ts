@@ -8,16 +8,35 @@ const forumMappingSchema = z.record(
   z.string().uuid('Fragment type ID must be a valid UUID')
 );
 
+// Thread lifecycle modes - how archive/lock/delete are reflected on fragments
+// tag     → discord-status:* tag only
+// note    → tag + status line in the fragment content
+// archive → tag + note + archive the fragment in Usable
+export const lifecycleModeSchema = z.enum(['tag', 'note', 'archive']);
+
+const lifecycleModesSchema = z.record(
+  z.string().min(1, 'Forum channel ID is required'),
+  lifecycleModeSchema
+);
+
 // Environment variable schema
 const envSchema = z.object({
   DISCORD_BOT_TOKEN: z.string().min(1, 'Discord bot token is required'),
   DISCORD_CLIENT_ID: z.string().min(1, 'Discord client ID is required'),
+  // Comma-separated guild IDs; when set, slash commands are registered to these guilds only
+  DISCORD_DEV_GUILD_IDS: z
+    .string()
+    .default('')
+    .transform((str) =>
+      str
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean)
+    ),
+  // Legacy forum → fragment type mapping; also overrides FORUMS_CONFIG_PATH entries
   DISCORD_FORUM_MAPPINGS: z
     .string()
-    .min(
-      1,
-      'Discord forum mappings are required (JSON object mapping forum IDs to fragment type IDs)'
-    )
+    .default('{}')
     .transform((str, ctx) => {
       try {
         const parsed = JSON.parse(str);
@@ -31,15 +50,76 @@ const envSchema = z.object({
         return z.NEVER;
       }
     }),
+  FORUMS_CONFIG_PATH: z.string().min(1).optional(),
+  TRACKED_FORUMS_PATH: z.string().min(1).default('./data/tracked-forums.sqlite'),
+  FORUMS_CONFIG_WATCH: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((value) => value === 'true'),
   USABLE_API_URL: z
     .string()
     .url('Usable API URL must be a valid URL')
     .default('https://api.usable.dev/api'),
+  // Link to a fragment in the Usable web app ({workspaceId} and {fragmentId} are filled in)
+  USABLE_FRAGMENT_URL_TEMPLATE: z
+    .string()
+    .min(1)
+    .default('https://usable.dev/dashboard/workspaces/{workspaceId}/fragments/{fragmentId}'),
   USABLE_API_KEY: z.string().min(1, 'Usable API key is required'),
   USABLE_WORKSPACE_ID: z.string().uuid('Usable workspace ID must be a valid UUID'),
+  USABLE_API_MAX_RETRIES: z.coerce.number().int().nonnegative().default(3),
+  USABLE_API_RETRY_BASE_DELAY_MS: z.coerce.number().int().positive().default(500),
+  USABLE_API_RETRY_MAX_DELAY_MS: z.coerce.number().int().positive().default(10000),
+  USABLE_API_RATE_LIMIT_PER_SECOND: z.coerce.number().positive().default(5),
+  USABLE_API_RATE_LIMIT_BURST: z.coerce.number().int().positive().default(10),
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
+  LOG_FORMAT: z.enum(['text', 'json']).default('text'),
   HEALTH_PORT: z.coerce.number().int().positive().default(3000),
+  // How long /health/details reuses a Usable reachability probe
+  HEALTH_USABLE_PROBE_TTL_MS: z.coerce.number().int().min(1000).default(30000),
+  THREAD_INDEX_PATH: z.string().min(1).default('./data/thread-index.sqlite'),
+  ATTACHMENT_INLINE_MAX_BYTES: z.coerce.number().int().nonnegative().default(16384),
+  THREAD_HISTORY_MAX_MESSAGES: z.coerce.number().int().positive().default(1000),
+  THREAD_HISTORY_TRUNCATION: z.enum(['head-tail', 'none']).default('head-tail'),
+  THREAD_HISTORY_KEEP_FIRST: z.coerce.number().int().nonnegative().default(50),
+  THREAD_HISTORY_KEEP_LAST: z.coerce.number().int().nonnegative().default(150),
+  UPDATE_DEBOUNCE_MS: z.coerce.number().int().nonnegative().default(5000),
+  UPDATE_MAX_DELAY_MS: z.coerce.number().int().positive().default(30000),
+  OUTBOX_PATH: z.string().min(1).default('./data/outbox.sqlite'),
+  OUTBOX_POLL_INTERVAL_MS: z.coerce.number().int().positive().default(30000),
+  OUTBOX_BASE_DELAY_MS: z.coerce.number().int().positive().default(30000),
+  OUTBOX_MAX_DELAY_MS: z.coerce.number().int().positive().default(3600000),
+  OUTBOX_MAX_ATTEMPTS: z.coerce.number().int().positive().default(10),
+  // Shared secret for signed Usable webhooks (the /webhooks/usable route is off without it)
+  USABLE_WEBHOOK_SECRET: z
+    .string()
+    .min(16, 'Webhook secret must be at least 16 characters')
+    .optional(),
+  USABLE_WEBHOOK_TOLERANCE_SECONDS: z.coerce.number().int().positive().default(300),
+  REVERSE_SYNC_ENABLED: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((value) => value === 'true'),
+  REVERSE_SYNC_INTERVAL_MS: z.coerce.number().int().min(5000).default(60000),
+  RELATED_FRAGMENTS_MIN_SCORE: z.coerce.number().min(0).max(1).default(0.75),
+  RELATED_FRAGMENTS_LIMIT: z.coerce.number().int().positive().max(10).default(3),
+  THREAD_LIFECYCLE_MODE: lifecycleModeSchema.default('tag'),
+  THREAD_LIFECYCLE_FORUM_MODES: z
+    .string()
+    .default('{}')
+    .transform((str, ctx) => {
+      try {
+        return lifecycleModesSchema.parse(JSON.parse(str));
+      } catch (_error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message:
+            'THREAD_LIFECYCLE_FORUM_MODES must be a valid JSON object mapping forum IDs to "tag", "note" or "archive"',
+        });
+        return z.NEVER;
+      }
+    }),
 });
 
 // Parse and validate environment variables
@@ -62,16 +142,4 @@ export const env = parseEnv();
 
 export type Env = z.infer<typeof envSchema>;
 
-/**
- * Check if a forum channel is configured to be tracked
- */
-export function isForumTracked(forumChannelId: string): boolean {
-  return forumChannelId in env.DISCORD_FORUM_MAPPINGS;
-}
-
-/**
- * Get the fragment type ID for a forum channel
- */
-export function getFragmentTypeForForum(forumChannelId: string): string | null {
-  return env.DISCORD_FORUM_MAPPINGS[forumChannelId] || null;
-}
+export type LifecycleMode = z.infer<typeof lifecycleModeSchema>;
@@ -0,0 +1,449 @@
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { z } from 'zod';
+import { logger } from '../utils/logger.js';
+import { type LifecycleMode, env, lifecycleModeSchema } from './env.js';
+
+/**
+ * Per-forum configuration
+ *
+ * Forums are declared in a JSON or YAML file (FORUMS_CONFIG_PATH):
+ *
+ * ```yaml
+ * defaults:
+ *   tags: [community]
+ *   features: { attachments: false }
+ * forums:
+ *   "1409902682981924989":
+ *     name: bug-reports
+ *     fragmentTypeId: 78a29aeb-8c6a-41b9-b54d-d0555be7e123
+ *     tags: [bug]
+ *     summaryTemplate: "Bug report by {author}: {title}"
+ * ```
+ *
+ * Env vars override the file: DISCORD_FORUM_MAPPINGS (the legacy flat
+ * forum → fragment type mapping) adds forums or replaces their fragment type,
+ * THREAD_LIFECYCLE_FORUM_MODES replaces their lifecycle mode, and
+ * USABLE_WORKSPACE_ID / USABLE_API_KEY / THREAD_LIFECYCLE_MODE are the
+ * fallbacks when neither the forum nor `defaults` set one.
+ *
+ * `reverseSync` rules describe what happens in Discord when a linked fragment
+ * changes in Usable (see services/reverse-sync.service.ts):
+ *
+ * ```yaml
+ * reverseSync:
+ *   - tag: fixed                  # fires when the fragment gains this tag...
+ *     status: archived            # ...and/or moves to this status
+ *     applyTags: [Resolved]       # forum tags (by name) added to the thread
+ *     rename: "[FIXED] {title}"   # {title} is the thread's current name
+ *     note: "✅ Marked fixed in Usable"
+ *     archive: true
+ * ```
+ *
+ * Changes made with `/track-forum` (services/tracked-forum.service.ts) are
+ * applied last: they add or remove forums and set their fragment type. The
+ * config layer doesn't read them itself - index.ts hands it a source with
+ * setForumOverrideSource, so importing this module has no side effects
+ * beyond reading the file.
+ *
+ * Forums can write to different Usable workspaces. API keys never go in the
+ * file: `apiKeyEnv` names the env var that holds the workspace's key, and all
+ * forums sharing a workspace must reference the same one.
+ *
+ * The file can be reloaded at runtime (see services/forum-config-watcher.service.ts).
+ * A reload swaps the whole active config in one assignment, so lookups never
+ * see a half-applied change; an invalid file is rejected and the previous
+ * config stays in effect.
+ */
+
+const DEFAULT_SUMMARY_TEMPLATE = 'Forum post by {author}: {title}';
+const DEFAULT_REPLY_TEMPLATE =
+  'Your post has been automatically logged. Updates to this thread will be tracked.';
+
+const featuresSchema = z
+  .object({
+    /** Sync new replies into the fragment */
+    replies: z.boolean(),
+    /** Sync message edits and deletions */
+    edits: z.boolean(),
+    /** Sync title and forum tag changes */
+    tags: z.boolean(),
+    /** Reflect archive/lock/delete on the fragment */
+    lifecycle: z.boolean(),
+    /** Inline small text attachments into the fragment */
+    attachments: z.boolean(),
+    /** Suggest possibly related fragments for new posts */
+    related: z.boolean(),
+  })
+  .strict();
+
+const reverseSyncRuleSchema = z
+  .object({
+    /** Fires when the fragment gains this tag */
+    tag: z.string().min(1).optional(),
+    /** Fires when the fragment moves to this status */
+    status: z.enum(['active', 'archived']).optional(),
+    /** Forum tag names to add to the thread */
+    applyTags: z.array(z.string().min(1)).default([]),
+    /** New thread name ({title}, {fragmentTitle}) */
+    rename: z.string().min(1).optional(),
+    /** Message posted in the thread ({title}, {fragmentTitle}) */
+    note: z.string().min(1).optional(),
+    archive: z.boolean().default(false),
+    lock: z.boolean().default(false),
+  })
+  .strict()
+  .refine((rule) => rule.tag !== undefined || rule.status !== undefined, {
+    message: 'A reverse sync rule needs a `tag` or `status` trigger',
+  });
+
+const forumEntrySchema = z
+  .object({
+    name: z.string().min(1),
+    workspaceId: z.string().uuid('Workspace ID must be a valid UUID'),
+    /** Name of the env var holding the API key for `workspaceId` */
+    apiKeyEnv: z.string().regex(/^[A-Z_][A-Z0-9_]*$/, 'Must be an environment variable name'),
+    fragmentTypeId: z.string().uuid('Fragment type ID must be a valid UUID'),
+    tags: z.array(z.string().min(1)),
+    repository: z.string().min(1),
+    summaryTemplate: z.string().min(1),
+    replyTemplate: z.string().min(1),
+    lifecycleMode: lifecycleModeSchema,
+    features: featuresSchema.partial(),
+    reverseSync: z.array(reverseSyncRuleSchema),
+  })
+  .partial()
+  .strict();
+
+const forumsFileSchema = z
+  .object({
+    defaults: forumEntrySchema.omit({ name: true }).default({}),
+    forums: z.record(z.string().min(1, 'Forum channel ID is required'), forumEntrySchema),
+  })
+  .strict();
+
+type ForumEntry = z.infer<typeof forumEntrySchema>;
+
+export type ForumFeature = keyof z.infer<typeof featuresSchema>;
+
+export type ReverseSyncRule = z.infer<typeof reverseSyncRuleSchema>;
+
+export interface ForumConfig {
+  forumId: string;
+  name?: string;
+  workspaceId: string;
+  apiKeyEnv: string;
+  fragmentTypeId: string;
+  tags: string[];
+  repository: string;
+  summaryTemplate: string;
+  replyTemplate: string;
+  lifecycleMode: LifecycleMode;
+  features: Record<ForumFeature, boolean>;
+  reverseSync: ReverseSyncRule[];
+}
+
+/**
+ * Error raised when the forum configuration can't be loaded
+ */
+export class ForumConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: string[] = []
+  ) {
+    super(message);
+    this.name = 'ForumConfigError';
+  }
+}
+
+/**
+ * A runtime change to which forums are tracked (e.g. from `/track-forum`)
+ */
+export interface ForumOverride {
+  forumId: string;
+  tracked: boolean;
+  /** Null when the forum is untracked */
+  fragmentTypeId: string | null;
+}
+
+/** Where runtime overrides come from; none until index.ts sets a source */
+let overrideSource: () => ForumOverride[] = () => [];
+
+/**
+ * Load and validate the forum configuration (file + env + runtime overrides)
+ *
+ * @throws ForumConfigError when the file is unreadable or invalid
+ */
+export function loadForumConfig(
+  path: string | undefined = env.FORUMS_CONFIG_PATH,
+  overrides: ForumOverride[] = overrideSource()
+) {
+  const file = path ? readForumsFile(path) : { defaults: {}, forums: {} };
+
+  const entries: Record<string, ForumEntry> = { ...file.forums };
+  for (const [forumId, fragmentTypeId] of Object.entries(env.DISCORD_FORUM_MAPPINGS)) {
+    entries[forumId] = { ...entries[forumId], fragmentTypeId };
+  }
+  // Runtime changes from /track-forum win over both the file and the env mapping
+  const untracked = new Set<string>();
+  for (const override of overrides) {
+    if (override.tracked && override.fragmentTypeId) {
+      entries[override.forumId] = {
+        ...entries[override.forumId],
+        fragmentTypeId: override.fragmentTypeId,
+      };
+    } else {
+      untracked.add(override.forumId);
+    }
+  }
+  for (const [forumId, lifecycleMode] of Object.entries(env.THREAD_LIFECYCLE_FORUM_MODES)) {
+    if (entries[forumId]) {
+      entries[forumId] = { ...entries[forumId], lifecycleMode };
+    }
+  }
+
+  const forums = new Map<string, ForumConfig>();
+  const workspaceKeys = new Map<string, string>([[env.USABLE_WORKSPACE_ID, 'USABLE_API_KEY']]);
+  const issues: string[] = [];
+
+  for (const [forumId, entry] of Object.entries(entries)) {
+    if (untracked.has(forumId)) {
+      continue;
+    }
+
+    const fragmentTypeId = entry.fragmentTypeId ?? file.defaults.fragmentTypeId;
+    if (!fragmentTypeId) {
+      issues.push(`forums.${forumId}.fragmentTypeId: Fragment type ID is required`);
+      continue;
+    }
+
+    const workspaceId = entry.workspaceId ?? file.defaults.workspaceId ?? env.USABLE_WORKSPACE_ID;
+    const apiKeyEnv = entry.apiKeyEnv ?? file.defaults.apiKeyEnv ?? 'USABLE_API_KEY';
+    if (!process.env[apiKeyEnv]) {
+      issues.push(`forums.${forumId}.apiKeyEnv: Environment variable ${apiKeyEnv} is not set`);
+      continue;
+    }
+
+    // One client per workspace, so every forum writing to it must use the same key
+    const workspaceKey = workspaceKeys.get(workspaceId);
+    if (workspaceKey && workspaceKey !== apiKeyEnv) {
+      issues.push(
+        `forums.${forumId}.apiKeyEnv: Workspace ${workspaceId} already uses ${workspaceKey}`
+      );
+      continue;
+    }
+    workspaceKeys.set(workspaceId, apiKeyEnv);
+
+    forums.set(forumId, {
+      forumId,
+      name: entry.name,
+      workspaceId,
+      apiKeyEnv,
+      fragmentTypeId,
+      tags: [...(file.defaults.tags ?? []), ...(entry.tags ?? [])],
+      repository: entry.repository ?? file.defaults.repository ?? 'usable-discord-bot',
+      summaryTemplate:
+        entry.summaryTemplate ?? file.defaults.summaryTemplate ?? DEFAULT_SUMMARY_TEMPLATE,
+      replyTemplate: entry.replyTemplate ?? file.defaults.replyTemplate ?? DEFAULT_REPLY_TEMPLATE,
+      lifecycleMode:
+        entry.lifecycleMode ?? file.defaults.lifecycleMode ?? env.THREAD_LIFECYCLE_MODE,
+      features: {
+        replies: true,
+        edits: true,
+        tags: true,
+        lifecycle: true,
+        attachments: true,
+        related: true,
+        ...file.defaults.features,
+        ...entry.features,
+      },
+      reverseSync: entry.reverseSync ?? file.defaults.reverseSync ?? [],
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new ForumConfigError('Invalid forum configuration', issues);
+  }
+  // Not an error: forums can be added at runtime with /track-forum
+  if (forums.size === 0) {
+    logger.warn(
+      'No forums configured - set FORUMS_CONFIG_PATH or DISCORD_FORUM_MAPPINGS, or use /track-forum'
+    );
+  }
+
+  return forums;
+}
+
+/**
+ * Read and validate the forums file (JSON, or YAML by extension)
+ */
+function readForumsFile(path: string): z.infer<typeof forumsFileSchema> {
+  let raw: unknown;
+  try {
+    const text = readFileSync(path, 'utf8');
+    const extension = extname(path).toLowerCase();
+    raw = extension === '.yaml' || extension === '.yml' ? Bun.YAML.parse(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ForumConfigError(
+      `Could not read forum config ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const result = forumsFileSchema.safeParse(raw);
+  if (!result.success) {
+    throw new ForumConfigError(
+      `Invalid forum config ${path}`,
+      result.error.errors.map((err) => `${err.path.join('.')}: ${err.message}`)
+    );
+  }
+
+  return result.data;
+}
+
+// Load forum configuration at startup
+const loadForumConfigOrExit = () => {
+  try {
+    return loadForumConfig();
+  } catch (error) {
+    if (error instanceof ForumConfigError) {
+      console.error(`❌ ${error.message}`);
+      error.issues.forEach((issue) => {
+        console.error(`  - ${issue}`);
+      });
+      process.exit(1);
+    }
+    throw error;
+  }
+};
+
+let forums = loadForumConfigOrExit();
+
+export interface ForumConfigDiff {
+  added: string[];
+  removed: string[];
+  /** Forum ID → names of the settings that changed */
+  changed: Record<string, string[]>;
+}
+
+/**
+ * Re-read the forum configuration and make it the active one
+ *
+ * @throws ForumConfigError when the new config is invalid (the active config is kept)
+ */
+export function reloadForumConfig(): ForumConfigDiff {
+  const next = loadForumConfig();
+  const diff = diffForumConfigs(forums, next);
+  forums = next;
+  return diff;
+}
+
+/**
+ * Set where runtime overrides come from and apply them to the active config
+ *
+ * Called once at startup; exits like the initial load when the result is invalid.
+ */
+export function setForumOverrideSource(source: () => ForumOverride[]): void {
+  overrideSource = source;
+  forums = loadForumConfigOrExit();
+}
+
+/**
+ * Compare two forum configurations
+ */
+function diffForumConfigs(
+  previous: Map<string, ForumConfig>,
+  next: Map<string, ForumConfig>
+): ForumConfigDiff {
+  const diff: ForumConfigDiff = { added: [], removed: [], changed: {} };
+
+  for (const [forumId, config] of next) {
+    const old = previous.get(forumId);
+    if (!old) {
+      diff.added.push(forumId);
+      continue;
+    }
+
+    const changedKeys = (Object.keys(config) as (keyof ForumConfig)[]).filter(
+      (key) => JSON.stringify(config[key]) !== JSON.stringify(old[key])
+    );
+    if (changedKeys.length > 0) {
+      diff.changed[forumId] = changedKeys;
+    }
+  }
+
+  for (const forumId of previous.keys()) {
+    if (!next.has(forumId)) {
+      diff.removed.push(forumId);
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Check if a forum channel is configured to be tracked
+ */
+export function isForumTracked(forumChannelId: string): boolean {
+  return forums.has(forumChannelId);
+}
+
+/**
+ * Get the full configuration for a forum channel
+ */
+export function getForumConfig(forumChannelId: string): ForumConfig | null {
+  return forums.get(forumChannelId) ?? null;
+}
+
+/**
+ * Get all tracked forum configurations
+ */
+export function getTrackedForums(): ForumConfig[] {
+  return [...forums.values()];
+}
+
+/**
+ * Get the fragment type ID for a forum channel
+ */
+export function getFragmentTypeForForum(forumChannelId: string): string | null {
+  return forums.get(forumChannelId)?.fragmentTypeId ?? null;
+}
+
+/**
+ * Get how thread lifecycle changes are reflected for a forum
+ */
+export function getLifecycleModeForForum(forumChannelId: string): LifecycleMode {
+  return forums.get(forumChannelId)?.lifecycleMode ?? env.THREAD_LIFECYCLE_MODE;
+}
+
+/**
+ * Get the workspace a forum's fragments are written to
+ */
+export function getWorkspaceForForum(forumChannelId: string): string {
+  return forums.get(forumChannelId)?.workspaceId ?? env.USABLE_WORKSPACE_ID;
+}
+
+/**
+ * Get the name of the env var holding the API key for a workspace
+ */
+export function getApiKeyEnvForWorkspace(workspaceId: string): string {
+  for (const forum of forums.values()) {
+    if (forum.workspaceId === workspaceId) {
+      return forum.apiKeyEnv;
+    }
+  }
+  return 'USABLE_API_KEY';
+}
+
+/**
+ * Check whether a feature is enabled for a forum
+ */
+export function isForumFeatureEnabled(forumChannelId: string, feature: ForumFeature): boolean {
+  return forums.get(forumChannelId)?.features[feature] ?? false;
+}
+
+/**
+ * Fill `{placeholder}` values in a summary or reply template
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
@@ -5,23 +5,102 @@
  * - /sync-thread <thread_id> - Sync a specific thread
  * - /sync-forum - Sync the current forum (all recent threads)
  * - /list-forums - Show configured forums
+ * - /track-forum add|remove|set-type - Change tracked forums at runtime
+ * - /link-fragment <fragment_id> - Link the current thread to an existing fragment
+ * - /unlink-fragment - Detach the current thread from its fragment
+ * - /usable-search <query> [type] [tag] - Search fragments (paged with buttons)
+ * - /audit-channel set|clear - Choose where moderator activity is posted
+ * - /permissions view|allow-role|remove-role|set-permission|reset - Who may run each command
  *
- * Uses Discord's native permission system - only users with "Manage Messages"
- * permission can use these commands (typically moderators/admins).
+ * Every command is checked against the guild's permission policy (see
+ * services/command-permission.service.ts). By default that's "Manage
+ * Messages", and "Manage Server" for /track-forum, /audit-channel and
+ * /permissions; guilds can allow extra roles per command.
+ *
+ * Commands that change something are posted to the guild's audit channel
+ * (see services/audit-log.service.ts) with their options and result.
  */
 
 import {
+  type ButtonInteraction,
   type ChatInputCommandInteraction,
   type Interaction,
   PermissionFlagsBits,
+  type ThreadChannel,
 } from 'discord.js';
+import { z } from 'zod';
+import {
+  COMMAND_PERMISSIONS,
+  type CommandPermission,
+  PERMISSIONS_COMMAND,
+  formatPermission,
+} from '../commands/permissions.js';
+import { POLICY_COMMAND_NAMES } from '../commands/register.js';
+import { getForumConfig, getWorkspaceForForum } from '../config/forums.js';
+import { auditLogService } from '../services/audit-log.service.js';
+import {
+  type CommandMember,
+  type CommandPolicy,
+  commandPermissionService,
+} from '../services/command-permission.service.js';
+import { forumConfigWatcher } from '../services/forum-config-watcher.service.js';
+import { outboxService } from '../services/outbox.service.js';
 import { syncAllForums, syncForum, syncThread } from '../services/sync.service';
+import { threadIndexService } from '../services/thread-index.service.js';
+import { trackedForumService } from '../services/tracked-forum.service.js';
+import { usableApiService } from '../services/usable-api.service.js';
+import { GUILD_FORUM } from '../types/discord.js';
+import { buildLinkedMessage, buildUnlinkedMessage } from '../utils/confirmation-message.js';
+import { findFragmentIdInThread } from '../utils/fragment-lookup.js';
 import { logger } from '../utils/logger';
+import {
+  SEARCH_BUTTON_PREFIX,
+  SEARCH_PAGE_SIZE,
+  type SearchQuery,
+  buildSearchResultsMessage,
+  createSearchSession,
+  getSearchSession,
+  parseSearchButtonId,
+} from '../utils/search-results.js';
+
+const fragmentTypeIdSchema = z.string().uuid();
+const fragmentIdSchema = z.string().uuid();
+
+/** What the bot needs in a forum to track it */
+const REQUIRED_FORUM_PERMISSIONS = [
+  PermissionFlagsBits.ViewChannel,
+  PermissionFlagsBits.ReadMessageHistory,
+  PermissionFlagsBits.SendMessagesInThreads,
+];
+
+/** What the bot needs in the audit channel to post entries */
+const REQUIRED_AUDIT_PERMISSIONS = [
+  PermissionFlagsBits.ViewChannel,
+  PermissionFlagsBits.SendMessages,
+  PermissionFlagsBits.EmbedLinks,
+];
+
+/** Commands that change something, and so are posted to the audit channel */
+const AUDITED_COMMANDS = new Set([
+  'sync-forum',
+  'sync-all-tracked',
+  'track-forum',
+  'link-fragment',
+  'unlink-fragment',
+  'audit-channel',
+  PERMISSIONS_COMMAND,
+]);
 
 /**
  * Handle interaction create events (slash commands)
  */
 export async function handleInteractionCreate(interaction: Interaction): Promise<void> {
+  // Page buttons on /usable-search results
+  if (interaction.isButton() && interaction.customId.startsWith(`${SEARCH_BUTTON_PREFIX}:`)) {
+    await handleSearchButton(interaction);
+    return;
+  }
+
   // Only handle chat input commands (slash commands)
   if (!interaction.isChatInputCommand()) {
     return;
@@ -37,10 +116,15 @@ export async function handleInteractionCreate(interaction: Interaction): Promise
   });
 
   try {
-    // Check permissions - user must have "Manage Messages" permission
-    if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageMessages)) {
+    // Check the guild's permission policy for this command
+    const guildId = interaction.guildId;
+    if (
+      !guildId ||
+      !commandPermissionService.isAllowed(guildId, commandName, getCommandMember(interaction))
+    ) {
+      const policy = guildId ? commandPermissionService.getPolicy(guildId, commandName) : null;
       await interaction.reply({
-        content: '❌ You need "Manage Messages" permission to use this command.',
+        content: `❌ You don't have permission to use \`/${commandName}\`.${policy && commandName !== PERMISSIONS_COMMAND ? ` Allowed: ${describePolicy(policy)}.` : ''}`,
         ephemeral: true,
       });
       return;
@@ -56,6 +140,24 @@ export async function handleInteractionCreate(interaction: Interaction): Promise
       case 'list-tracked':
         await handleListForums(interaction);
         break;
+      case 'track-forum':
+        await handleTrackForum(interaction);
+        break;
+      case 'link-fragment':
+        await handleLinkFragment(interaction);
+        break;
+      case 'unlink-fragment':
+        await handleUnlinkFragment(interaction);
+        break;
+      case 'usable-search':
+        await handleUsableSearch(interaction);
+        break;
+      case 'audit-channel':
+        await handleAuditChannel(interaction);
+        break;
+      case PERMISSIONS_COMMAND:
+        await handlePermissions(interaction);
+        break;
       default:
         await interaction.reply({
           content: `❌ Unknown command: ${commandName}`,
@@ -69,6 +171,13 @@ export async function handleInteractionCreate(interaction: Interaction): Promise
       userId: user.id,
     });
 
+    if (AUDITED_COMMANDS.has(commandName)) {
+      await auditLogService.recordCommand(interaction, {
+        outcome: 'failed',
+        summary: 'The command failed with an unexpected error. Check bot logs for details.',
+      });
+    }
+
     // Try to reply with error
     const errorMessage = '❌ An error occurred while processing your command.';
     if (interaction.replied || interaction.deferred) {
@@ -121,6 +230,13 @@ async function handleSyncThread(interaction: ChatInputCommandInteraction): Promi
       content: `❌ **Failed to sync thread**\n\n📝 Thread ID: \`${threadId}\`\n\nPossible reasons:\n- Thread doesn't exist\n- Thread is not in a forum\n- Forum is not configured for tracking\n- Thread already processed (use 'force: true' to reprocess)\n\nCheck bot logs for details.`,
     });
   }
+
+  await auditLogService.recordCommand(interaction, {
+    outcome: success ? 'success' : 'failed',
+    summary: success
+      ? `Synced thread <#${threadId}> to Usable.`
+      : `Failed to sync thread <#${threadId}>.`,
+  });
 }
 
 /**
@@ -175,15 +291,27 @@ async function handleSyncForum(interaction: ChatInputCommandInteraction): Promis
   }
 
   await interaction.editReply({ content: response });
+
+  await auditLogService.recordCommand(interaction, {
+    outcome: result.failedThreads > 0 ? 'warning' : 'success',
+    summary: `${dryRun ? 'Previewed sync of' : 'Synced'} ${forumId ? `forum <#${forumId}>` : 'all tracked forums'}.`,
+    counts: {
+      Scanned: result.scannedThreads,
+      Unprocessed: result.unprocessedThreads,
+      Processed: result.processedThreads,
+      Skipped: result.skippedThreads,
+      Failed: result.failedThreads,
+    },
+  });
 }
 
 /**
  * Handle /list-forums command
  */
 async function handleListForums(interaction: ChatInputCommandInteraction): Promise<void> {
-  const { env } = await import('../config/env.js');
+  const { getTrackedForums } = await import('../config/forums.js');
 
-  const forums = Object.entries(env.DISCORD_FORUM_MAPPINGS);
+  const forums = getTrackedForums();
 
   if (forums.length === 0) {
     await interaction.reply({
@@ -196,7 +324,12 @@ async function handleListForums(interaction: ChatInputCommandInteraction): Promi
   let response = `📋 **Configured Forums** (${forums.length})\n\n`;
   response += 'These forums are tracked and can be synced:\n\n';
 
-  for (const [forumId, fragmentTypeId] of forums) {
+  for (const { forumId, name, workspaceId, fragmentTypeId, features } of forums) {
+    const disabled = Object.entries(features)
+      .filter(([, enabled]) => !enabled)
+      .map(([feature]) => feature);
+    const featureLine = disabled.length > 0 ? `all except ${disabled.join(', ')}` : 'all';
+
     try {
       // Try to fetch the forum name
       const channel = await interaction.client.channels.fetch(forumId);
@@ -204,11 +337,15 @@ async function handleListForums(interaction: ChatInputCommandInteraction): Promi
 
       response += `• ${forumName}\n`;
       response += `  ├─ Forum ID: \`${forumId}\`\n`;
-      response += `  └─ Fragment Type: \`${fragmentTypeId}\`\n\n`;
+      response += `  ├─ Workspace: \`${workspaceId}\`\n`;
+      response += `  ├─ Fragment Type: \`${fragmentTypeId}\`\n`;
+      response += `  └─ Features: ${featureLine}\n\n`;
     } catch {
-      // If we can't fetch the channel, just show the IDs
-      response += `• Forum ID: \`${forumId}\`\n`;
-      response += `  └─ Fragment Type: \`${fragmentTypeId}\`\n\n`;
+      // If we can't fetch the channel, show the configured name and IDs
+      response += `• ${name ? `**${name}** - ` : ''}Forum ID: \`${forumId}\`\n`;
+      response += `  ├─ Workspace: \`${workspaceId}\`\n`;
+      response += `  ├─ Fragment Type: \`${fragmentTypeId}\`\n`;
+      response += `  └─ Features: ${featureLine}\n\n`;
     }
   }
 
@@ -219,3 +356,511 @@ async function handleListForums(interaction: ChatInputCommandInteraction): Promi
     ephemeral: true,
   });
 }
+
+/**
+ * Handle /track-forum add|remove|set-type
+ *
+ * Changes are persisted as overrides (see services/tracked-forum.service.ts)
+ * and applied by reloading the forum config, so they take effect immediately.
+ * If the reloaded config is rejected, the previous override is put back.
+ */
+async function handleTrackForum(interaction: ChatInputCommandInteraction): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+  const forumId = interaction.options.getChannel('forum', true).id;
+  const fragmentTypeId = interaction.options.getString('fragment_type');
+  const guildId = interaction.guildId;
+  const tracked = getForumConfig(forumId);
+
+  if (!guildId) {
+    return;
+  }
+
+  if (subcommand !== 'add' && !tracked) {
+    await interaction.reply({
+      content: `❌ <#${forumId}> is not tracked. Use \`/track-forum add\` first.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (subcommand === 'add' && tracked) {
+    await interaction.reply({
+      content: `❌ <#${forumId}> is already tracked. Use \`/track-forum set-type\` to change its fragment type.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (subcommand !== 'remove') {
+    if (!fragmentTypeId || !fragmentTypeIdSchema.safeParse(fragmentTypeId).success) {
+      await interaction.reply({
+        content: '❌ `fragment_type` must be a fragment type UUID.',
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const problem = await checkForumChannel(interaction, forumId, guildId);
+    if (problem) {
+      await interaction.reply({ content: `❌ ${problem}`, ephemeral: true });
+      return;
+    }
+  }
+
+  const previous = trackedForumService.get(forumId);
+  const updatedBy = interaction.user.id;
+
+  if (subcommand === 'remove') {
+    trackedForumService.untrack({ forumId, guildId, updatedBy });
+  } else {
+    trackedForumService.track({
+      forumId,
+      guildId,
+      fragmentTypeId: fragmentTypeId as string,
+      updatedBy,
+    });
+  }
+
+  if (!forumConfigWatcher.reload(`/track-forum ${subcommand}`)) {
+    trackedForumService.restore(forumId, previous);
+    await interaction.reply({
+      content: '❌ The change was rejected by the forum configuration. Check bot logs for details.',
+      ephemeral: true,
+    });
+    await auditLogService.recordCommand(interaction, {
+      outcome: 'failed',
+      summary: `Change to <#${forumId}> was rejected by the forum configuration and rolled back.`,
+    });
+    return;
+  }
+
+  const messages: Record<string, string> = {
+    add: `✅ Now tracking <#${forumId}> with fragment type \`${fragmentTypeId}\`.`,
+    remove: `✅ Stopped tracking <#${forumId}>. Existing fragments are kept.`,
+    'set-type': `✅ New posts in <#${forumId}> will use fragment type \`${fragmentTypeId}\`.`,
+  };
+  await interaction.reply({ content: messages[subcommand], ephemeral: true });
+  await auditLogService.recordCommand(interaction, {
+    outcome: 'success',
+    summary: messages[subcommand].replace('✅ ', ''),
+  });
+}
+
+/**
+ * Check a channel is a forum in this server that the bot can work in
+ *
+ * @returns A description of the problem, or null if the forum is usable
+ */
+async function checkForumChannel(
+  interaction: ChatInputCommandInteraction,
+  forumId: string,
+  guildId: string
+): Promise<string | null> {
+  const channel = await interaction.client.channels.fetch(forumId).catch(() => null);
+
+  if (!channel || channel.type !== GUILD_FORUM || channel.guildId !== guildId) {
+    return `<#${forumId}> is not a forum channel in this server that the bot can see.`;
+  }
+
+  const botUser = interaction.client.user;
+  if (!channel.permissionsFor(botUser)?.has(REQUIRED_FORUM_PERMISSIONS)) {
+    return `The bot needs View Channel, Read Message History and Send Messages in Threads in <#${forumId}>.`;
+  }
+
+  return null;
+}
+
+/**
+ * Handle /link-fragment command
+ *
+ * Attaches an existing fragment to the current thread, e.g. one made by hand
+ * while the bot was down, or the right one after the bot created a wrong one.
+ * The fragment must exist in the forum's workspace. Queued writes for the
+ * thread are dropped so they can't create or update another fragment.
+ */
+async function handleLinkFragment(interaction: ChatInputCommandInteraction): Promise<void> {
+  const fragmentId = interaction.options.getString('fragment_id', true).trim();
+
+  const thread = await getTrackedThread(interaction);
+  if (!thread?.parentId) {
+    return;
+  }
+
+  if (!fragmentIdSchema.safeParse(fragmentId).success) {
+    await interaction.reply({
+      content: '❌ `fragment_id` must be a fragment UUID.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  await interaction.deferReply({ flags: 64 }); // 64 = Ephemeral
+
+  const current = await findFragmentIdInThread(thread);
+  if (current === fragmentId) {
+    await interaction.editReply({
+      content: `ℹ️ This thread is already linked to fragment \`${fragmentId}\`.`,
+    });
+    return;
+  }
+
+  const workspaceId = getWorkspaceForForum(thread.parentId);
+  const fragment = await usableApiService.getFragment(fragmentId, workspaceId);
+
+  if (!fragment) {
+    await interaction.editReply({
+      content: `❌ Fragment \`${fragmentId}\` was not found in this forum's workspace (\`${workspaceId}\`).\n\nCheck the ID, or the bot logs if Usable is unreachable.`,
+    });
+    return;
+  }
+
+  if (fragment.workspaceId && fragment.workspaceId !== workspaceId) {
+    await interaction.editReply({
+      content: `❌ Fragment \`${fragmentId}\` belongs to workspace \`${fragment.workspaceId}\`, but this forum uses \`${workspaceId}\`.`,
+    });
+    return;
+  }
+
+  outboxService.discardPending(thread.id);
+  threadIndexService.upsert({
+    threadId: thread.id,
+    fragmentId,
+    forumId: thread.parentId,
+    workspaceId,
+    // Tags like possible-duplicate described the previous fragment
+    extraTags: [],
+    remote: { tags: fragment.tags ?? [], status: fragment.status ?? null },
+  });
+
+  await thread.send(buildLinkedMessage(fragment, workspaceId, interaction.user.id));
+
+  logger.info('Thread linked to fragment via command', {
+    threadId: thread.id,
+    fragmentId,
+    previousFragmentId: current,
+    userId: interaction.user.id,
+  });
+
+  await interaction.editReply({
+    content: `✅ Linked this thread to fragment \`${fragmentId}\`${current ? ` (was \`${current}\`)` : ''}. New replies and edits will be synced to it.`,
+  });
+  await auditLogService.recordCommand(interaction, {
+    outcome: 'success',
+    summary: `Linked <#${thread.id}> to fragment \`${fragmentId}\`${current ? ` (was \`${current}\`)` : ''}.`,
+  });
+}
+
+/**
+ * Handle /unlink-fragment command
+ *
+ * Detaches the current thread so replies, edits and lifecycle changes are no
+ * longer synced. The fragment itself is left untouched in Usable.
+ */
+async function handleUnlinkFragment(interaction: ChatInputCommandInteraction): Promise<void> {
+  const thread = await getTrackedThread(interaction);
+  if (!thread) {
+    return;
+  }
+
+  await interaction.deferReply({ flags: 64 }); // 64 = Ephemeral
+
+  // Also backfills the index from the confirmation message if needed
+  const fragmentId = await findFragmentIdInThread(thread);
+  if (!fragmentId) {
+    await interaction.editReply({ content: 'ℹ️ This thread is not linked to a fragment.' });
+    return;
+  }
+
+  outboxService.discardPending(thread.id);
+  threadIndexService.detach(thread.id);
+
+  await thread.send(buildUnlinkedMessage(fragmentId, interaction.user.id));
+
+  logger.info('Thread unlinked from fragment via command', {
+    threadId: thread.id,
+    fragmentId,
+    userId: interaction.user.id,
+  });
+
+  await interaction.editReply({
+    content: `✅ Unlinked this thread from fragment \`${fragmentId}\`. The fragment is kept in Usable; use \`/link-fragment\` to link one again.`,
+  });
+  await auditLogService.recordCommand(interaction, {
+    outcome: 'success',
+    summary: `Unlinked <#${thread.id}> from fragment \`${fragmentId}\`.`,
+  });
+}
+
+/**
+ * Handle /audit-channel set|clear
+ *
+ * The change itself is recorded in the new channel (or the old one when cleared).
+ */
+async function handleAuditChannel(interaction: ChatInputCommandInteraction): Promise<void> {
+  const guildId = interaction.guildId;
+  if (!guildId) {
+    return;
+  }
+
+  if (interaction.options.getSubcommand() === 'clear') {
+    if (!auditLogService.getChannel(guildId)) {
+      await interaction.reply({ content: 'ℹ️ No audit channel is set.', ephemeral: true });
+      return;
+    }
+
+    await auditLogService.recordCommand(interaction, {
+      outcome: 'success',
+      summary: 'Audit channel cleared. Moderator activity will no longer be posted here.',
+    });
+    auditLogService.clearChannel(guildId);
+    await interaction.reply({ content: '✅ Audit channel cleared.', ephemeral: true });
+    return;
+  }
+
+  const channelId = interaction.options.getChannel('channel', true).id;
+  const channel = await interaction.client.channels.fetch(channelId).catch(() => null);
+  const botUser = interaction.client.user;
+
+  if (
+    !channel ||
+    channel.isDMBased() ||
+    channel.guildId !== guildId ||
+    !channel.permissionsFor(botUser)?.has(REQUIRED_AUDIT_PERMISSIONS)
+  ) {
+    await interaction.reply({
+      content: `❌ The bot needs View Channel, Send Messages and Embed Links in <#${channelId}>.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  auditLogService.setChannel({ guildId, channelId, updatedBy: interaction.user.id });
+  await interaction.reply({
+    content: `✅ Privileged commands and fragment failures will be posted to <#${channelId}>.`,
+    ephemeral: true,
+  });
+  await auditLogService.recordCommand(interaction, {
+    outcome: 'success',
+    summary: `Audit channel set to <#${channelId}>.`,
+  });
+}
+
+/**
+ * Handle /permissions view|allow-role|remove-role|set-permission|reset
+ *
+ * Changes apply to this guild only and take effect immediately.
+ */
+async function handlePermissions(interaction: ChatInputCommandInteraction): Promise<void> {
+  const guildId = interaction.guildId;
+  if (!guildId) {
+    return;
+  }
+
+  const subcommand = interaction.options.getSubcommand();
+  const command = interaction.options.getString('command');
+  const updatedBy = interaction.user.id;
+
+  if (subcommand === 'view') {
+    const lines = (command ? [command] : POLICY_COMMAND_NAMES).map((name) => {
+      const policy = commandPermissionService.getPolicy(guildId, name);
+      return `• \`/${name}\` - ${describePolicy(policy)}${policy.customized ? '' : ' _(default)_'}`;
+    });
+
+    await interaction.reply({
+      content: `🔐 **Command Permissions**\n\n${lines.join('\n')}\n\n_Administrators can always run every command. \`/${PERMISSIONS_COMMAND}\` always requires Manage Server._`,
+      ephemeral: true,
+      allowedMentions: { parse: [] },
+    });
+    return;
+  }
+
+  if (!command) {
+    return;
+  }
+
+  let policy: CommandPolicy;
+  switch (subcommand) {
+    case 'allow-role': {
+      const role = interaction.options.getRole('role', true);
+      policy = commandPermissionService.allowRole(guildId, command, role.id, updatedBy);
+      break;
+    }
+    case 'remove-role': {
+      const role = interaction.options.getRole('role', true);
+      policy = commandPermissionService.removeRole(guildId, command, role.id, updatedBy);
+      break;
+    }
+    case 'set-permission': {
+      const permission = interaction.options.getString('permission', true);
+      policy = commandPermissionService.setPermission(
+        guildId,
+        command,
+        isCommandPermission(permission) ? permission : null,
+        updatedBy
+      );
+      break;
+    }
+    default:
+      policy = commandPermissionService.reset(guildId, command);
+  }
+
+  const summary = `\`/${command}\` can now be run by ${describePolicy(policy)}.`;
+  await interaction.reply({
+    content: `✅ ${summary}`,
+    ephemeral: true,
+    allowedMentions: { parse: [] },
+  });
+  await auditLogService.recordCommand(interaction, { outcome: 'success', summary });
+}
+
+/**
+ * Who a policy lets run a command, e.g. "Manage Messages or @Triage"
+ */
+function describePolicy(policy: CommandPolicy): string {
+  const allowed = [
+    ...(policy.permission ? [`members with ${formatPermission(policy.permission)}`] : []),
+    ...policy.roleIds.map((roleId) => `<@&${roleId}>`),
+  ];
+  return allowed.length > 0 ? allowed.join(' or ') : 'administrators only';
+}
+
+function isCommandPermission(value: string): value is CommandPermission {
+  return (COMMAND_PERMISSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * The roles and permissions of the member running a command
+ */
+function getCommandMember(interaction: ChatInputCommandInteraction): CommandMember {
+  const roles = interaction.member?.roles;
+  return {
+    roleIds: !roles ? [] : Array.isArray(roles) ? roles : [...roles.cache.keys()],
+    permissions: interaction.memberPermissions,
+  };
+}
+
+/**
+ * The thread the command was run in, if it belongs to a tracked forum
+ *
+ * Replies with an error and returns null otherwise.
+ */
+async function getTrackedThread(
+  interaction: ChatInputCommandInteraction
+): Promise<ThreadChannel | null> {
+  const channel = interaction.channel;
+
+  if (!channel?.isThread() || channel.parent?.type !== GUILD_FORUM) {
+    await interaction.reply({
+      content: '❌ Run this command inside a forum thread.',
+      ephemeral: true,
+    });
+    return null;
+  }
+
+  if (!channel.parentId || !getForumConfig(channel.parentId)) {
+    await interaction.reply({
+      content: `❌ <#${channel.parentId}> is not tracked. Use \`/track-forum add\` first.`,
+      ephemeral: true,
+    });
+    return null;
+  }
+
+  return channel;
+}
+
+/**
+ * Handle /usable-search command
+ *
+ * Searches the workspace of the forum the command is run in (the default
+ * workspace elsewhere) and shows the first page of results.
+ */
+async function handleUsableSearch(interaction: ChatInputCommandInteraction): Promise<void> {
+  const query = interaction.options.getString('query', true);
+  const fragmentTypeId = interaction.options.getString('type') ?? undefined;
+  const tag = interaction.options.getString('tag') ?? undefined;
+
+  if (fragmentTypeId && !fragmentTypeIdSchema.safeParse(fragmentTypeId).success) {
+    await interaction.reply({
+      content: '❌ `type` must be a fragment type UUID.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  const channel = interaction.channel;
+  const forumId = channel?.isThread() ? channel.parentId : channel?.id;
+
+  const search: SearchQuery = {
+    workspaceId: getWorkspaceForForum(forumId ?? ''),
+    query,
+    fragmentTypeId,
+    tag,
+  };
+
+  await interaction.deferReply({ flags: 64 }); // 64 = Ephemeral
+
+  const sessionId = createSearchSession({ ...search, userId: interaction.user.id });
+  const results = await searchPage(search, 0);
+
+  if (!results) {
+    await interaction.editReply({
+      content: '❌ Search failed. Check bot logs for details.',
+    });
+    return;
+  }
+
+  await interaction.editReply(buildSearchResultsMessage(sessionId, search, results, 0));
+}
+
+/**
+ * Handle the prev/next buttons on search results
+ */
+async function handleSearchButton(interaction: ButtonInteraction): Promise<void> {
+  try {
+    const parsed = parseSearchButtonId(interaction.customId);
+    const session = parsed ? getSearchSession(parsed.sessionId) : null;
+
+    if (!parsed || !session || session.userId !== interaction.user.id) {
+      await interaction.reply({
+        content: '⌛ This search has expired. Run `/usable-search` again.',
+        ephemeral: true,
+      });
+      return;
+    }
+
+    await interaction.deferUpdate();
+
+    const results = await searchPage(session, parsed.page);
+    if (!results) {
+      await interaction.followUp({
+        content: '❌ Search failed. Check bot logs for details.',
+        ephemeral: true,
+      });
+      return;
+    }
+
+    await interaction.editReply(
+      buildSearchResultsMessage(parsed.sessionId, session, results, parsed.page)
+    );
+  } catch (error) {
+    logger.error('Error handling search page button', {
+      error,
+      customId: interaction.customId,
+      userId: interaction.user.id,
+    });
+  }
+}
+
+/**
+ * Fetch one page of results for a search
+ */
+function searchPage(search: SearchQuery, page: number) {
+  return usableApiService.searchFragments({
+    workspaceId: search.workspaceId,
+    query: search.query,
+    fragmentTypeId: search.fragmentTypeId,
+    tags: search.tag ? [search.tag] : undefined,
+    limit: SEARCH_PAGE_SIZE,
+    offset: page * SEARCH_PAGE_SIZE,
+  });
+}
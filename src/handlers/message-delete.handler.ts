@@ -0,0 +1,101 @@
+/**
+ * 🗑️ Message Delete Handler
+ *
+ * Removes deleted messages from fragments by rewriting the conversation.
+ *
+ * Handles both single deletions and bulk deletions (moderator purges).
+ * Deleted messages are usually uncached partials, so the author may be
+ * unknown - we only skip messages we know were sent by a bot.
+ */
+
+import type {
+  GuildTextBasedChannel,
+  Message,
+  PartialMessage,
+  ReadonlyCollection,
+  Snowflake,
+  TextBasedChannel,
+} from 'discord.js';
+import { isForumFeatureEnabled, isForumTracked } from '../config/forums.js';
+import { scheduleConversationSync } from '../services/conversation-sync.service.js';
+import { GUILD_FORUM } from '../types/discord.js';
+import { findFragmentIdInThread } from '../utils/fragment-lookup.js';
+import { logger } from '../utils/logger.js';
+import { invalidateThreadHistory } from '../utils/thread-history.js';
+
+/**
+ * Handle a single deleted message
+ */
+export async function handleMessageDelete(message: Message | PartialMessage): Promise<void> {
+  try {
+    if (message.author?.bot) {
+      return;
+    }
+
+    await resyncThreadAfterDeletion(message.channel, 1);
+  } catch (error) {
+    logger.error('Error handling message deletion', {
+      error,
+      messageId: message.id,
+    });
+  }
+}
+
+/**
+ * Handle a bulk deletion (all messages belong to the same channel)
+ */
+export async function handleMessageBulkDelete(
+  messages: ReadonlyCollection<Snowflake, Message<true> | PartialMessage<true>>,
+  channel: GuildTextBasedChannel
+): Promise<void> {
+  try {
+    const deletedCount = messages.filter((message) => !message.author?.bot).size;
+    if (deletedCount === 0) {
+      return;
+    }
+
+    await resyncThreadAfterDeletion(channel, deletedCount);
+  } catch (error) {
+    logger.error('Error handling bulk message deletion', {
+      error,
+      channelId: channel.id,
+    });
+  }
+}
+
+/**
+ * Schedule a conversation rewrite if the channel is a tracked forum thread
+ */
+async function resyncThreadAfterDeletion(
+  channel: TextBasedChannel,
+  deletedCount: number
+): Promise<void> {
+  if (!channel.isThread() || !channel.parent || channel.parent.type !== GUILD_FORUM) {
+    return;
+  }
+
+  if (!channel.parentId || !isForumTracked(channel.parentId)) {
+    return;
+  }
+
+  if (!isForumFeatureEnabled(channel.parentId, 'edits')) {
+    return;
+  }
+
+  const fragmentId = await findFragmentIdInThread(channel);
+  if (!fragmentId) {
+    logger.debug('No fragment ID found for message deletion, skipping', {
+      threadId: channel.id,
+    });
+    return;
+  }
+
+  logger.info('Thread messages deleted - scheduling fragment update', {
+    threadId: channel.id,
+    fragmentId,
+    deletedCount,
+  });
+
+  invalidateThreadHistory(channel.id);
+  scheduleConversationSync(channel, fragmentId);
+}
@@ -0,0 +1,92 @@
+/**
+ * ✏️ Message Update Handler
+ *
+ * Keeps fragments in sync when messages in a tracked thread are edited.
+ *
+ * Flow:
+ * 1. Check the message is in a tracked forum thread with `edits` enabled
+ * 2. Ignore bot messages and edits that don't change what we render
+ *    (the old message is a partial when it wasn't cached - always resync then)
+ * 3. Find the fragment ID and schedule a conversation rewrite
+ *
+ * The starter post is just the first message of the thread, so edits to it
+ * (e.g. adding repro steps) are picked up the same way as edits to replies.
+ */
+
+import type { Message, PartialMessage } from 'discord.js';
+import { isForumFeatureEnabled, isForumTracked } from '../config/forums.js';
+import { scheduleConversationSync } from '../services/conversation-sync.service.js';
+import { GUILD_FORUM } from '../types/discord.js';
+import { findFragmentIdInThread } from '../utils/fragment-lookup.js';
+import { logger } from '../utils/logger.js';
+import { invalidateThreadHistory } from '../utils/thread-history.js';
+
+/**
+ * Handle edited messages in threads
+ */
+export async function handleMessageUpdate(
+  oldMessage: Message | PartialMessage,
+  message: Message
+): Promise<void> {
+  try {
+    // Check if message is in a forum thread
+    const thread = message.channel;
+    if (!thread.isThread() || !thread.parent || thread.parent.type !== GUILD_FORUM) {
+      return;
+    }
+
+    // Check if this forum is configured to be tracked
+    if (!thread.parentId || !isForumTracked(thread.parentId)) {
+      return;
+    }
+
+    if (!isForumFeatureEnabled(thread.parentId, 'edits')) {
+      return;
+    }
+
+    if (message.author.bot) {
+      return;
+    }
+
+    if (!oldMessage.partial && !hasRenderedChanges(oldMessage, message)) {
+      return;
+    }
+
+    const fragmentId = await findFragmentIdInThread(thread);
+    if (!fragmentId) {
+      logger.debug('No fragment ID found for message edit, skipping', {
+        threadId: thread.id,
+      });
+      return;
+    }
+
+    logger.info('Thread message edited - scheduling fragment update', {
+      threadId: thread.id,
+      fragmentId,
+      messageId: message.id,
+      isStarterMessage: message.id === thread.id,
+    });
+
+    invalidateThreadHistory(thread.id);
+    scheduleConversationSync(thread, fragmentId);
+  } catch (error) {
+    logger.error('Error handling message update', {
+      error,
+      messageId: message.id,
+    });
+  }
+}
+
+/**
+ * Check whether an edit touches anything that ends up in the fragment
+ *
+ * Discord also fires updates for pins, flags and link-preview resolution.
+ */
+function hasRenderedChanges(oldMessage: Message, message: Message): boolean {
+  return (
+    oldMessage.content !== message.content ||
+    oldMessage.embeds.length !== message.embeds.length ||
+    oldMessage.attachments.size !== message.attachments.size ||
+    oldMessage.stickers.size !== message.stickers.size
+  );
+}
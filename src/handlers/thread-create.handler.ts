@@ -5,22 +5,44 @@
  *
  * Flow:
  * 1. Check if it's a forum thread (not a regular text channel thread)
- * 2. Check if this forum is configured to be tracked (via DISCORD_FORUM_MAPPINGS)
- * 3. Get the fragment type for this forum (Issue, Feature Request, etc.)
+ * 2. Check if this forum is configured to be tracked (see config/forums.ts)
+ * 3. Get the forum's configuration (workspace, fragment type, templates, …)
  * 4. Fetch the starter message (the initial post content)
- * 5. Create fragment in Usable with all the Discord metadata
- * 6. Reply in Discord with the fragment ID (this is our "database"!)
+ * 5. Look for existing fragments about the same problem; if any are relevant
+ *    enough, tag the new fragment `possible-duplicate`
+ * 6. Create fragment in Usable with all the Discord metadata (including the
+ *    forum tags chosen when the post was created)
+ * 7. Record the thread → fragment mapping in the thread index
+ * 8. Reply in Discord with the fragment ID, followed by a "Possibly related"
+ *    list when step 5 found anything
+ *    (on failure: reply with an error and queue the create in the outbox)
  *
- * Key insight: We store the fragment ID in Discord itself, so no external
- * database is needed. The bot's own message becomes the link!
+ * The bot's reply doubles as a fallback link: if the index is ever lost,
+ * the fragment ID can still be recovered from the thread itself.
  */
 
+import { randomUUID } from 'node:crypto';
 import type { Message, ThreadChannel } from 'discord.js';
-import { env, getFragmentTypeForForum, isForumTracked } from '../config/env.js';
+import { getForumConfig, isForumFeatureEnabled, renderTemplate } from '../config/forums.js';
+import { auditLogService } from '../services/audit-log.service.js';
+import { outboxService } from '../services/outbox.service.js';
+import { threadIndexService } from '../services/thread-index.service.js';
 import { usableApiService } from '../services/usable-api.service.js';
 import { GUILD_FORUM } from '../types/discord.js';
+import { buildConfirmationMessage, formatFailureMessage } from '../utils/confirmation-message.js';
 import { retryDiscordApi } from '../utils/discord-retry.js';
+import {
+  buildCreateFragmentRequest,
+  getCreatedFragmentState,
+  getTemplateValues,
+} from '../utils/fragment-request.js';
 import { logger } from '../utils/logger.js';
+import { fragmentWritesFailedTotal, fragmentsCreatedTotal } from '../utils/metrics.js';
+import {
+  POSSIBLE_DUPLICATE_TAG,
+  buildRelatedFragmentsEmbed,
+  findRelatedFragments,
+} from '../utils/related-fragments.js';
 
 /**
  * Handle new forum thread creation
@@ -33,86 +55,96 @@ export async function handleThreadCreate(thread: ThreadChannel): Promise<void> {
       return;
     }
 
-    // Check if this forum is configured to be tracked
-    if (!thread.parentId || !isForumTracked(thread.parentId)) {
-      logger.debug('Forum not configured for tracking', {
-        threadId: thread.id,
-        forumId: thread.parentId,
-        forumName: thread.parent.name,
-      });
-      return;
-    }
+    const log = logger.child({ threadId: thread.id, forumId: thread.parentId });
 
-    // Get the fragment type for this forum
-    const fragmentTypeId = getFragmentTypeForForum(thread.parentId);
-    if (!fragmentTypeId) {
-      logger.error('Forum is tracked but no fragment type found', {
-        threadId: thread.id,
-        forumId: thread.parentId,
-      });
+    // Check if this forum is configured to be tracked
+    const forumConfig = thread.parentId ? getForumConfig(thread.parentId) : null;
+    if (!thread.parentId || !forumConfig) {
+      log.debug('Forum not configured for tracking', { forumName: thread.parent.name });
       return;
     }
 
-    logger.info('New forum thread created', {
-      threadId: thread.id,
+    log.info('New forum thread created', {
       threadName: thread.name,
-      channelId: thread.parentId,
       channelName: thread.parent.name,
     });
 
     // Fetch the starter message
     const starterMessage = await fetchStarterMessage(thread);
     if (!starterMessage) {
-      logger.warn('Could not fetch starter message for thread', { threadId: thread.id });
+      log.warn('Could not fetch starter message for thread');
       return;
     }
 
-    // Create fragment in Usable
-    const fragment = await usableApiService.createFragment({
-      title: thread.name,
-      content: usableApiService.formatThreadContent(
-        starterMessage.author.username,
-        starterMessage.content,
-        {
-          threadName: thread.name,
-          channelName: thread.parent.name,
-          guildName: thread.guild.name,
-          timestamp: starterMessage.createdAt,
-        }
-      ),
-      workspaceId: env.USABLE_WORKSPACE_ID,
-      fragmentTypeId: fragmentTypeId,
-      summary: `Forum post by ${starterMessage.author.username}: ${thread.name}`,
-      tags: [
-        ...usableApiService.generateTags({
-          guildName: thread.guild.name,
-          channelName: thread.parent.name,
-          threadName: thread.name,
-        }),
-        'repo:usable-discord-bot',
-      ],
-      repository: 'usable-discord-bot',
-    });
+    const request = await buildCreateFragmentRequest(thread, starterMessage, forumConfig);
+
+    // Check whether the same problem has already been reported
+    const related = isForumFeatureEnabled(thread.parentId, 'related')
+      ? await findRelatedFragments({
+          title: thread.name,
+          body: starterMessage.content,
+          workspaceId: request.workspaceId,
+          fragmentTypeId: request.fragmentTypeId,
+        })
+      : [];
+    if (related.length > 0) {
+      request.tags = [...(request.tags ?? []), POSSIBLE_DUPLICATE_TAG];
+    }
+
+    // Create fragment in Usable (outbox retries reuse the idempotency key)
+    const idempotencyKey = randomUUID();
+    const result = await usableApiService.createFragment(request, idempotencyKey);
+
+    if (result.outcome === 'created') {
+      const { fragment } = result;
+      fragmentsCreatedTotal.inc({ forum: thread.parentId });
+      threadIndexService.upsert({
+        threadId: thread.id,
+        fragmentId: fragment.fragmentId,
+        forumId: thread.parentId,
+        workspaceId: request.workspaceId,
+        extraTags: related.length > 0 ? [POSSIBLE_DUPLICATE_TAG] : undefined,
+        remote: getCreatedFragmentState(request, fragment),
+      });
 
-    if (fragment) {
       // Reply to the thread with the fragment ID
       await thread.send(
-        `✅ **Issue registered in Usable!**
-        📝 Fragment ID: \`${fragment.fragmentId}\`
-        
-        📌 Title: ${thread.name}
-        _Your post has been automatically logged. Updates to this thread will be tracked._`
+        buildConfirmationMessage(request, fragment, {
+          footer: renderTemplate(
+            forumConfig.replyTemplate,
+            getTemplateValues(thread, starterMessage.author.username)
+          ),
+        })
       );
 
-      logger.info('Successfully created fragment and notified thread', {
-        threadId: thread.id,
+      log.info('Successfully created fragment and notified thread', {
         fragmentId: fragment.fragmentId,
+        relatedCount: related.length,
+      });
+    } else if (result.outcome === 'retryable') {
+      // Queue for retry - the outbox edits this message once the fragment exists
+      fragmentWritesFailedTotal.inc({ forum: thread.parentId, operation: 'create' });
+      const failureMessage = await thread.send(formatFailureMessage());
+      outboxService.enqueueCreate({
+        threadId: thread.id,
+        forumId: thread.parentId,
+        request,
+        idempotencyKey,
+        failureMessageId: failureMessage.id,
       });
+      await auditLogService.recordFragmentFailure(thread, { stage: 'queued', source: 'new post' });
     } else {
-      await thread.send(
-        `❌ **Failed to register issue in Usable**
-          _There was an error creating the fragment. Please try again or contact support._`
-      );
+      // Retrying won't help - leave it to moderators
+      fragmentWritesFailedTotal.inc({ forum: thread.parentId, operation: 'create' });
+      await thread.send(formatFailureMessage(false));
+      await auditLogService.recordFragmentFailure(thread, {
+        stage: 'rejected',
+        source: 'new post',
+      });
+    }
+
+    if (related.length > 0) {
+      await thread.send({ embeds: [buildRelatedFragmentsEmbed(related, request.workspaceId)] });
     }
   } catch (error) {
     logger.error('Error handling thread creation', {
@@ -0,0 +1,139 @@
+/**
+ * 🗑️ Thread Delete Handler
+ *
+ * Reflects deleted forum threads on their Usable fragments.
+ *
+ * Flow:
+ * 1. Check if it's a tracked forum thread with the `lifecycle` feature enabled
+ * 2. Look up the fragment ID in the thread index (the thread's messages
+ *    are gone, so there's nothing left to scan)
+ * 3. Tag the fragment `discord-status:deleted`
+ * 4. Depending on the forum's lifecycle mode, add a status line to the
+ *    content (`note`) and archive the fragment (`archive`)
+ * 5. Drop the thread from the index
+ *
+ * The status line is written as part of a full content rewrite - from the
+ * conversation if Discord still serves it, otherwise from the fragment's
+ * current content - so it never depends on a patch finding its anchor.
+ * If neither works, only the tags (and archive status) are updated.
+ *
+ * The fragment itself is never deleted - it's the record of the report.
+ */
+
+import type { ThreadChannel } from 'discord.js';
+import {
+  getLifecycleModeForForum,
+  isForumFeatureEnabled,
+  isForumTracked,
+} from '../config/forums.js';
+import { buildConversationContent } from '../services/conversation-sync.service.js';
+import { outboxService } from '../services/outbox.service.js';
+import { threadIndexService } from '../services/thread-index.service.js';
+import { updateScheduler } from '../services/update-scheduler.service.js';
+import { usableApiService } from '../services/usable-api.service.js';
+import { GUILD_FORUM } from '../types/discord.js';
+import type { UpdateFragmentRequest } from '../types/usable.js';
+import { logger } from '../utils/logger.js';
+import { buildThreadTags, getThreadStatuses } from '../utils/thread-tags.js';
+
+/**
+ * Handle forum thread deletion
+ */
+export async function handleThreadDelete(thread: ThreadChannel): Promise<void> {
+  try {
+    // Only process forum threads
+    if (!thread.parent || thread.parent.type !== GUILD_FORUM) {
+      return;
+    }
+
+    // Check if this forum is configured to be tracked
+    if (!thread.parentId || !isForumTracked(thread.parentId)) {
+      return;
+    }
+
+    if (!isForumFeatureEnabled(thread.parentId, 'lifecycle')) {
+      return;
+    }
+
+    const entry = threadIndexService.get(thread.id);
+    if (!entry || entry.syncStatus === 'detached') {
+      logger.debug('Deleted thread not linked to a fragment, skipping', { threadId: thread.id });
+      return;
+    }
+
+    const { fragmentId } = entry;
+    const lifecycleMode = getLifecycleModeForForum(thread.parentId);
+
+    logger.info('Thread deleted - syncing to Usable', {
+      threadId: thread.id,
+      fragmentId,
+      lifecycleMode,
+    });
+
+    const statuses = getThreadStatuses(thread, true);
+
+    const updatePayload: UpdateFragmentRequest = {
+      fragmentId,
+      tags: buildThreadTags(thread, statuses),
+    };
+
+    if (lifecycleMode === 'archive') {
+      updatePayload.status = 'archived';
+    }
+
+    await updateScheduler.enqueue(fragmentId, async () => {
+      if (lifecycleMode !== 'tag') {
+        const content = await rebuildContent(thread, fragmentId, entry.workspaceId, statuses);
+        if (content) {
+          updatePayload.content = content;
+        } else {
+          logger.warn('Could not rebuild fragment content, updating tags only', {
+            threadId: thread.id,
+            fragmentId,
+          });
+        }
+      }
+
+      const success = await outboxService.updateFragment(thread.id, updatePayload);
+
+      if (success) {
+        threadIndexService.remove(thread.id);
+        logger.info('Successfully synced thread deletion to Usable', {
+          threadId: thread.id,
+          fragmentId,
+        });
+      } else {
+        threadIndexService.markSyncStatus(thread.id, 'failed');
+        logger.error('Failed to sync thread deletion to Usable', {
+          threadId: thread.id,
+          fragmentId,
+        });
+      }
+    });
+  } catch (error) {
+    logger.error('Error handling thread deletion', {
+      error,
+      threadId: thread.id,
+    });
+  }
+}
+
+/**
+ * Rebuild the fragment content with the deleted status line
+ *
+ * Prefers the conversation; falls back to the fragment's current content.
+ */
+async function rebuildContent(
+  thread: ThreadChannel,
+  fragmentId: string,
+  workspaceId: string | null,
+  statuses: string[]
+): Promise<string | null> {
+  const content = await buildConversationContent(thread, statuses);
+  if (content) {
+    return content;
+  }
+
+  const fragment = await usableApiService.getFragment(fragmentId, workspaceId ?? undefined);
+  return fragment?.content ? usableApiService.applyStatusLine(fragment.content, statuses) : null;
+}
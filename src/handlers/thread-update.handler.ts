@@ -4,25 +4,42 @@
  * Syncs Discord forum changes to Usable fragments in real-time.
  *
  * Flow:
- * 1. Check if it's a tracked forum thread
- * 2. Find the fragment ID from the bot's message (database-free!)
- * 3. Detect what changed (title, tags, etc.)
+ * 1. Check if it's a tracked forum thread (and not an update the bot made
+ *    itself while applying a change from Usable - see reverse-sync.service.ts)
+ * 2. Find the fragment ID (thread index, falling back to the bot's message)
+ * 3. Detect what changed (title, tags, etc.), skipping changes whose
+ *    feature is disabled for the forum (`tags`, `lifecycle`)
  * 4. Build update payload with new values
  * 5. Sync to Usable
  *
  * What We Track:
  * - Title changes: "Bug report" → "URGENT: Bug report"
  * - Tag changes: Discord forum tags like "urgent", "bug", "feature"
+ * - Lifecycle changes: archive/unarchive, lock/unlock
  *
  * Tag Format: Discord tags are prefixed with `discord-tag:` to distinguish
  * them from other Usable tags. Example: `discord-tag:urgent`
+ * Lifecycle state is tagged as `discord-status:archived` / `discord-status:locked`.
+ * Depending on the forum's lifecycle mode, it's also shown as a status line
+ * in the content (`note`) and archives the fragment in Usable (`archive`).
  */
 
 import type { ThreadChannel } from 'discord.js';
-import { isForumTracked } from '../config/env.js';
-import { usableApiService } from '../services/usable-api.service.js';
+import {
+  getLifecycleModeForForum,
+  isForumFeatureEnabled,
+  isForumTracked,
+} from '../config/forums.js';
+import { syncConversation } from '../services/conversation-sync.service.js';
+import { outboxService } from '../services/outbox.service.js';
+import { reverseSyncService } from '../services/reverse-sync.service.js';
+import { threadIndexService } from '../services/thread-index.service.js';
+import { updateScheduler } from '../services/update-scheduler.service.js';
 import { GUILD_FORUM } from '../types/discord.js';
+import type { UpdateFragmentRequest } from '../types/usable.js';
+import { findFragmentIdInThread } from '../utils/fragment-lookup.js';
 import { logger } from '../utils/logger.js';
+import { buildThreadTags } from '../utils/thread-tags.js';
 
 /**
  * Handle forum thread updates (tag changes, title changes, etc.)
@@ -42,125 +59,97 @@ export async function handleThreadUpdate(
       return;
     }
 
-    // Find the fragment ID from the bot's previous message
-    const fragmentId = await findFragmentIdInThread(newThread, newThread.client.user?.id);
+    const threadLogger = logger.child({ threadId: newThread.id, forumId: newThread.parentId });
 
-    if (!fragmentId) {
-      logger.debug('No fragment ID found for thread update, skipping', {
-        threadId: newThread.id,
-      });
+    // Don't echo changes that came from Usable back to it
+    if (reverseSyncService.consumeEcho(newThread)) {
+      threadLogger.debug('Thread update caused by reverse sync, skipping');
       return;
     }
 
-    // Check what changed
-    const changes = detectChanges(oldThread, newThread);
+    // Find the fragment linked to this thread
+    const fragmentId = await findFragmentIdInThread(newThread);
+
+    if (!fragmentId) {
+      threadLogger.debug('No fragment ID found for thread update, skipping');
+      return;
+    }
+    const log = threadLogger.child({ fragmentId });
+
+    // Check what changed, ignoring changes the forum has opted out of syncing
+    const forumId = newThread.parentId;
+    const changes = detectChanges(oldThread, newThread).filter((change) =>
+      change === 'archived' || change === 'locked'
+        ? isForumFeatureEnabled(forumId, 'lifecycle')
+        : isForumFeatureEnabled(forumId, 'tags')
+    );
 
     if (changes.length === 0) {
       return;
     }
 
-    logger.info('Thread updated - syncing to Usable', {
-      threadId: newThread.id,
-      fragmentId,
-      changes,
-    });
+    log.info('Thread updated - syncing to Usable', { changes });
 
     // Build update payload
-    const updatePayload: {
-      fragmentId: string;
-      title?: string;
-      tags?: string[];
-    } = {
+    const updatePayload: UpdateFragmentRequest = {
       fragmentId,
     };
 
     // Update title if it changed
     if (changes.includes('title')) {
       updatePayload.title = newThread.name;
-      logger.info('Thread title changed', {
+      log.info('Thread title changed', {
         oldTitle: oldThread.name,
         newTitle: newThread.name,
       });
     }
 
-    // Update tags if they changed
-    if (changes.includes('tags')) {
-      const forumChannel = newThread.parent?.type === GUILD_FORUM ? newThread.parent : null;
-      const discordTags = newThread.appliedTags
-        .map((tagId) => {
-          const tag = forumChannel?.availableTags.find((t) => t.id === tagId);
-          return tag ? `discord-tag:${tag.name.toLowerCase().replace(/\s+/g, '-')}` : null;
-        })
-        .filter((tag): tag is string => tag !== null);
-
-      // Combine with base tags
-      updatePayload.tags = [
-        ...usableApiService.generateTags({
-          guildName: newThread.guild.name,
-          channelName: newThread.parent?.name,
-          threadName: newThread.name,
-        }),
-        ...discordTags,
-        'repo:usable-discord-bot',
-      ];
-
-      logger.info('Thread tags changed', {
+    // Update tags if they changed (lifecycle changes are reflected as tags too)
+    const lifecycleChanged = changes.includes('archived') || changes.includes('locked');
+    if (changes.includes('tags') || lifecycleChanged) {
+      updatePayload.tags = buildThreadTags(newThread);
+
+      log.info('Thread tags changed', {
         oldTags: oldThread.appliedTags,
         newTags: newThread.appliedTags,
-        usableTags: discordTags,
+        usableTags: updatePayload.tags,
       });
     }
 
-    // Update the fragment in Usable
-    const success = await usableApiService.updateFragment(updatePayload);
-
-    if (success) {
-      logger.info('Successfully synced thread update to Usable', {
-        threadId: newThread.id,
-        fragmentId,
-        changes,
-      });
-    } else {
-      logger.error('Failed to sync thread update to Usable', {
-        threadId: newThread.id,
-        fragmentId,
-        changes,
+    const lifecycleMode = getLifecycleModeForForum(newThread.parentId);
+    if (lifecycleChanged) {
+      log.info('Thread lifecycle changed', {
+        archived: newThread.archived,
+        locked: newThread.locked,
+        lifecycleMode,
       });
-    }
-  } catch (error) {
-    logger.error('Error handling thread update', {
-      error,
-      threadId: newThread.id,
-    });
-  }
-}
 
-/**
- * Find the fragment ID from the bot's previous message in the thread
- */
-async function findFragmentIdInThread(
-  thread: ThreadChannel,
-  botUserId: string | undefined
-): Promise<string | null> {
-  try {
-    if (!thread.isThread()) {
-      return null;
+      if (lifecycleMode === 'archive' && changes.includes('archived')) {
+        updatePayload.status = newThread.archived ? 'archived' : 'active';
+      }
     }
 
-    const messages = await thread.messages.fetch({ limit: 50 });
-    const botMessage = messages.find(
-      (msg) => msg.author.id === botUserId && msg.content.includes('Fragment ID:')
-    );
+    // Update the fragment in Usable (serialized with other writes to this fragment)
+    await updateScheduler.enqueue(fragmentId, async () => {
+      const success = await outboxService.updateFragment(newThread.id, updatePayload);
+      threadIndexService.markSyncStatus(newThread.id, success ? 'synced' : 'failed');
 
-    if (!botMessage) {
-      return null;
-    }
+      if (success) {
+        log.info('Successfully synced thread update to Usable', { changes });
+      } else {
+        log.error('Failed to sync thread update to Usable', { changes });
+      }
+    });
 
-    const match = botMessage.content.match(/Fragment ID: `([a-f0-9-]+)`/i);
-    return match ? match[1] : null;
+    // Re-render the content so the status line reflects the new lifecycle state
+    if (lifecycleChanged && lifecycleMode !== 'tag') {
+      await updateScheduler.enqueue(fragmentId, () => syncConversation(newThread, fragmentId));
+    }
   } catch (error) {
-    logger.error('Error finding fragment ID in thread', { error, threadId: thread.id });
-    return null;
+    logger.error('Error handling thread update', {
+      error,
+      threadId: newThread.id,
+    });
   }
 }
 
@@ -186,11 +175,13 @@ function detectChanges(oldThread: ThreadChannel, newThread: ThreadChannel): stri
     changes.push('tags');
   }
 
-  // Could add more checks here:
-  // - archived status
-  // - locked status
-  // - auto-archive duration
-  // etc.
+  // Check lifecycle changes
+  if (oldThread.archived !== newThread.archived) {
+    changes.push('archived');
+  }
+  if (oldThread.locked !== newThread.locked) {
+    changes.push('locked');
+  }
 
   return changes;
 }
@@ -0,0 +1,239 @@
+/**
+ * 🪝 Usable Webhook Handler
+ *
+ * Receives fragment events pushed by Usable on `POST /webhooks/usable`
+ * (served by HealthService's HTTP server).
+ *
+ * Flow:
+ * 1. Only answer when USABLE_WEBHOOK_SECRET is set (404 otherwise), for POSTs
+ *    with a reasonably sized body
+ * 2. Verify the HMAC signature and timestamp (see utils/webhook-signature.ts)
+ * 3. Validate the event and drop event IDs already seen (replays within the
+ *    timestamp window), and events whose workspace isn't the one the linked
+ *    thread writes to
+ * 4. Acknowledge with 202 and apply the event in the background:
+ *    - fragment.updated → the forum's reverse sync rules (tags, rename, note, archive)
+ *    - fragment.deleted → detach the linked thread and post a notice in it
+ *
+ * Unknown event types are acknowledged and ignored, so Usable doesn't retry them.
+ */
+
+import type { Client } from 'discord.js';
+import { z } from 'zod';
+import { env } from '../config/env.js';
+import { getWorkspaceForForum } from '../config/forums.js';
+import { reverseSyncService } from '../services/reverse-sync.service.js';
+import { threadIndexService } from '../services/thread-index.service.js';
+import { logger } from '../utils/logger.js';
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  verifyWebhookSignature,
+} from '../utils/webhook-signature.js';
+
+export const USABLE_WEBHOOK_PATH = '/webhooks/usable';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_SEEN_EVENTS = 10000;
+
+const eventEnvelopeSchema = z.object({
+  id: z.string().min(1),
+  type: z.string().min(1),
+  data: z.unknown(),
+});
+
+const fragmentUpdatedSchema = z.object({
+  fragment: z.object({
+    fragmentId: z.string().min(1),
+    title: z.string(),
+    workspaceId: z.string().min(1),
+    tags: z.array(z.string()),
+    status: z.enum(['active', 'archived']).optional(),
+    updatedAt: z.string().optional(),
+  }),
+});
+
+const fragmentDeletedSchema = z.object({
+  fragmentId: z.string().min(1),
+  // Checked against the linked thread's workspace when present
+  workspaceId: z.string().min(1).optional(),
+});
+
+/** Event ID → when it can be forgotten (after the timestamp window has passed) */
+const seenEvents = new Map<string, number>();
+
+/**
+ * Handle a request to the Usable webhook route
+ */
+export async function handleUsableWebhook(req: Request, client: Client | null): Promise<Response> {
+  const secret = env.USABLE_WEBHOOK_SECRET;
+  if (!secret) {
+    return new Response('Not Found', { status: 404 });
+  }
+
+  if (req.method !== 'POST') {
+    return json(405, { error: 'method_not_allowed' });
+  }
+
+  // Content-Length is only a hint (chunked requests have none); readBody enforces the limit
+  if (Number(req.headers.get('content-length') ?? 0) > MAX_BODY_BYTES) {
+    return json(413, { error: 'payload_too_large' });
+  }
+
+  const body = await readBody(req, MAX_BODY_BYTES);
+  if (body === null) {
+    return json(413, { error: 'payload_too_large' });
+  }
+  const check = verifyWebhookSignature({
+    secret,
+    body,
+    timestamp: req.headers.get(TIMESTAMP_HEADER),
+    signature: req.headers.get(SIGNATURE_HEADER),
+    toleranceSeconds: env.USABLE_WEBHOOK_TOLERANCE_SECONDS,
+  });
+
+  if (check !== 'valid') {
+    logger.warn('Rejected Usable webhook', { reason: check });
+    return json(401, { error: `signature_${check}` });
+  }
+
+  let event: z.infer<typeof eventEnvelopeSchema>;
+  try {
+    event = eventEnvelopeSchema.parse(JSON.parse(body));
+  } catch {
+    return json(400, { error: 'invalid_event' });
+  }
+
+  pruneSeenEvents();
+  if (seenEvents.has(event.id)) {
+    logger.debug('Duplicate Usable webhook ignored', { eventId: event.id });
+    return json(200, { status: 'duplicate' });
+  }
+
+  // Discord must be connected to act on the event; Usable retries on 503
+  if (!client?.isReady()) {
+    return json(503, { error: 'not_ready' });
+  }
+
+  let apply: () => Promise<void>;
+  switch (event.type) {
+    case 'fragment.updated': {
+      const data = fragmentUpdatedSchema.safeParse(event.data);
+      if (!data.success) {
+        return json(400, { error: 'invalid_event' });
+      }
+      const { fragment } = data.data;
+      if (!isLinkedWorkspace(fragment.fragmentId, fragment.workspaceId)) {
+        return json(202, { status: 'ignored' });
+      }
+      apply = () => reverseSyncService.applyFragmentChange(fragment);
+      break;
+    }
+    case 'fragment.deleted': {
+      const data = fragmentDeletedSchema.safeParse(event.data);
+      if (!data.success) {
+        return json(400, { error: 'invalid_event' });
+      }
+      const { fragmentId, workspaceId } = data.data;
+      if (workspaceId && !isLinkedWorkspace(fragmentId, workspaceId)) {
+        return json(202, { status: 'ignored' });
+      }
+      apply = () => reverseSyncService.applyFragmentDeletion(fragmentId);
+      break;
+    }
+    default:
+      logger.debug('Ignoring unsupported Usable webhook event', { type: event.type });
+      return json(202, { status: 'ignored' });
+  }
+
+  seenEvents.set(event.id, Date.now() + env.USABLE_WEBHOOK_TOLERANCE_SECONDS * 2000);
+  logger.info('Usable webhook received', { eventId: event.id, type: event.type });
+
+  apply().catch((error) => {
+    logger.error('Error applying Usable webhook event', {
+      error,
+      eventId: event.id,
+      type: event.type,
+    });
+  });
+
+  return json(202, { status: 'accepted' });
+}
+
+/**
+ * Whether an event's workspace matches the one the fragment's thread writes to
+ *
+ * Events for fragments no thread links to pass; there's nothing for them to change.
+ */
+function isLinkedWorkspace(fragmentId: string, workspaceId: string): boolean {
+  const entry = threadIndexService.findByFragmentId(fragmentId);
+  if (!entry) {
+    return true;
+  }
+
+  const linkedWorkspaceId = entry.workspaceId ?? getWorkspaceForForum(entry.forumId);
+  if (linkedWorkspaceId === workspaceId) {
+    return true;
+  }
+
+  logger.warn('Ignoring Usable webhook for a fragment linked in another workspace', {
+    fragmentId,
+    threadId: entry.threadId,
+    eventWorkspaceId: workspaceId,
+    linkedWorkspaceId,
+  });
+  return false;
+}
+
+/**
+ * Read the request body as text, or null as soon as it exceeds `maxBytes`
+ */
+async function readBody(req: Request, maxBytes: number): Promise<string | null> {
+  if (!req.body) {
+    return '';
+  }
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Forget expired event IDs, and the oldest ones if there are too many
+ */
+function pruneSeenEvents(): void {
+  const now = Date.now();
+  for (const [eventId, expiresAt] of seenEvents) {
+    if (expiresAt <= now || seenEvents.size > MAX_SEEN_EVENTS) {
+      seenEvents.delete(eventId);
+    }
+  }
+}
+
+function json(status: number, body: Record<string, string>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
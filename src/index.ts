@@ -4,17 +4,30 @@
  * This is where everything starts! The flow is simple:
  * 1. Create bot instance → Registers all event handlers
  * 2. Start health check server → For Kubernetes probes
- * 3. Set up graceful shutdown → Clean disconnects on Ctrl+C
- * 4. Start the bot → Connects to Discord
+ * 3. Watch the forum config → Reload on file change or SIGHUP
+ * 4. Set up graceful shutdown → Flush pending updates, clean disconnects on Ctrl+C
+ * 5. Start the bot → Connects to Discord
  *
  * Production-ready with proper error handling and cleanup ✨
  */
 
 import { DiscordBot } from './bot.js';
 import { env } from './config/env.js';
+import { setForumOverrideSource } from './config/forums.js';
+import { auditLogService } from './services/audit-log.service.js';
+import { commandPermissionService } from './services/command-permission.service.js';
+import { forumConfigWatcher } from './services/forum-config-watcher.service.js';
 import { HealthService } from './services/health.service.js';
+import { outboxService } from './services/outbox.service.js';
+import { reverseSyncService } from './services/reverse-sync.service.js';
+import { threadIndexService } from './services/thread-index.service.js';
+import { trackedForumService } from './services/tracked-forum.service.js';
+import { updateScheduler } from './services/update-scheduler.service.js';
 import { logger } from './utils/logger.js';
 
+// Apply forums added or removed with /track-forum on top of the config file
+setForumOverrideSource(() => trackedForumService.list());
+
 // Create bot and health service
 const bot = new DiscordBot();
 const healthService = new HealthService(env.HEALTH_PORT);
@@ -25,11 +38,25 @@ healthService.setDiscordClient(bot.getClient());
 // Start health check server
 healthService.start();
 
+// Pick up forum config changes without a restart
+forumConfigWatcher.start();
+process.on('SIGHUP', () => forumConfigWatcher.reload('SIGHUP'));
+
 // Graceful shutdown handlers
 const gracefulShutdown = async (signal: string) => {
   logger.info(`Received ${signal}, shutting down gracefully...`);
   healthService.stop();
+  forumConfigWatcher.stop();
+  reverseSyncService.stop();
+  // Write pending fragment updates while the Discord client is still connected
+  await updateScheduler.flush();
+  // Waits for an in-flight outbox retry, which may still need Discord
+  await outboxService.close();
   await bot.stop();
+  threadIndexService.close();
+  trackedForumService.close();
+  auditLogService.close();
+  commandPermissionService.close();
   process.exit(0);
 };
 
@@ -0,0 +1,149 @@
+/**
+ * 🛡️ Audit Log Service
+ *
+ * Posts moderator activity to a per-guild audit channel, so moderators can
+ * see what happened without access to the bot's logs:
+ * - every privileged slash command (who, options, result)
+ * - fragments that couldn't be created
+ *
+ * The channel is set with `/audit-channel` and stored next to the
+ * `/track-forum` overrides. Guilds without one are skipped. Posting is best
+ * effort: failures are logged and never affect the command or event.
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { ChatInputCommandInteraction, Client, EmbedBuilder, ThreadChannel } from 'discord.js';
+import { env } from '../config/env.js';
+import {
+  type CommandAuditResult,
+  type FragmentFailureAudit,
+  buildCommandAuditEmbed,
+  buildFragmentFailureAuditEmbed,
+} from '../utils/audit-message.js';
+import { logger } from '../utils/logger.js';
+import { openDatabase } from '../utils/sqlite.js';
+
+export interface AuditChannel {
+  guildId: string;
+  channelId: string;
+  updatedBy: string;
+  updatedAt: Date;
+}
+
+interface AuditChannelRow {
+  guild_id: string;
+  channel_id: string;
+  updated_by: string;
+  updated_at: number;
+}
+
+export class AuditLogService {
+  private db: Database;
+
+  constructor(path: string = env.TRACKED_FORUMS_PATH) {
+    this.db = openDatabase(path);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS audit_channels (
+        guild_id TEXT PRIMARY KEY,
+        channel_id TEXT NOT NULL,
+        updated_by TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  /**
+   * The audit channel configured for a guild, if any
+   */
+  getChannel(guildId: string): AuditChannel | null {
+    const row = this.db
+      .query<AuditChannelRow, [string]>('SELECT * FROM audit_channels WHERE guild_id = ?')
+      .get(guildId);
+    return row ? toAuditChannel(row) : null;
+  }
+
+  /**
+   * Set (or replace) a guild's audit channel
+   */
+  setChannel(entry: { guildId: string; channelId: string; updatedBy: string }): void {
+    this.db
+      .query(
+        `INSERT INTO audit_channels (guild_id, channel_id, updated_by, updated_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(guild_id) DO UPDATE SET
+           channel_id = excluded.channel_id,
+           updated_by = excluded.updated_by,
+           updated_at = excluded.updated_at`
+      )
+      .run(entry.guildId, entry.channelId, entry.updatedBy, Date.now());
+    logger.info('Audit channel set via command', entry);
+  }
+
+  /**
+   * Stop posting audit entries for a guild
+   */
+  clearChannel(guildId: string): void {
+    this.db.query('DELETE FROM audit_channels WHERE guild_id = ?').run(guildId);
+    logger.info('Audit channel cleared via command', { guildId });
+  }
+
+  /**
+   * Record a privileged slash command
+   */
+  async recordCommand(
+    interaction: ChatInputCommandInteraction,
+    result: CommandAuditResult
+  ): Promise<void> {
+    if (!interaction.guildId) {
+      return;
+    }
+    await this.post(
+      interaction.client,
+      interaction.guildId,
+      buildCommandAuditEmbed(interaction, result)
+    );
+  }
+
+  /**
+   * Record a fragment that couldn't be created for a thread
+   */
+  async recordFragmentFailure(thread: ThreadChannel, failure: FragmentFailureAudit): Promise<void> {
+    await this.post(thread.client, thread.guildId, buildFragmentFailureAuditEmbed(thread, failure));
+  }
+
+  /**
+   * Close the underlying database
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  private async post(client: Client, guildId: string, embed: EmbedBuilder): Promise<void> {
+    const auditChannel = this.getChannel(guildId);
+    if (!auditChannel) {
+      return;
+    }
+
+    try {
+      const channel = await client.channels.fetch(auditChannel.channelId);
+      if (!channel?.isSendable()) {
+        logger.warn('Audit channel is missing or not a text channel', auditChannel);
+        return;
+      }
+      await channel.send({ embeds: [embed], allowedMentions: { parse: [] } });
+    } catch (error) {
+      logger.error('Failed to post to audit channel', { error, ...auditChannel });
+    }
+  }
+}
+
+function toAuditChannel(row: AuditChannelRow): AuditChannel {
+  return {
+    guildId: row.guild_id,
+    channelId: row.channel_id,
+    updatedBy: row.updated_by,
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+export const auditLogService = new AuditLogService();
@@ -0,0 +1,194 @@
+/**
+ * 🔐 Command Permission Service
+ *
+ * Per-guild policy deciding who may run each slash command, changed with
+ * `/permissions` and stored next to the `/track-forum` overrides.
+ *
+ * A member may run a command when they:
+ * - are an Administrator, or
+ * - have one of the roles allowed for it, or
+ * - have the permission it requires (its default from commands/permissions.ts,
+ *   another one, or none so only the allowed roles can run it)
+ *
+ * Guilds that never changed a command use its default, so triage volunteers
+ * only need a role added with `/permissions allow-role` rather than Manage
+ * Messages.
+ */
+
+import type { Database } from 'bun:sqlite';
+import { PermissionFlagsBits, type PermissionsBitField } from 'discord.js';
+import {
+  type CommandPermission,
+  PERMISSIONS_COMMAND,
+  getDefaultPermission,
+} from '../commands/permissions.js';
+import { env } from '../config/env.js';
+import { logger } from '../utils/logger.js';
+import { openDatabase } from '../utils/sqlite.js';
+
+export interface CommandPolicy {
+  command: string;
+  /** Roles allowed to run the command regardless of their permissions */
+  roleIds: string[];
+  /** Permission that also allows it, or null for roles (and admins) only */
+  permission: CommandPermission | null;
+  /** False when the guild uses the command's default */
+  customized: boolean;
+}
+
+/** Who is asking to run a command */
+export interface CommandMember {
+  roleIds: string[];
+  permissions: Readonly<PermissionsBitField> | null;
+}
+
+interface CommandPermissionRow {
+  guild_id: string;
+  command: string;
+  role_ids: string;
+  permission: CommandPermission | null;
+  updated_by: string;
+  updated_at: number;
+}
+
+export class CommandPermissionService {
+  private db: Database;
+
+  constructor(path: string = env.TRACKED_FORUMS_PATH) {
+    this.db = openDatabase(path);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS command_permissions (
+        guild_id TEXT NOT NULL,
+        command TEXT NOT NULL,
+        role_ids TEXT NOT NULL,
+        permission TEXT,
+        updated_by TEXT NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (guild_id, command)
+      )
+    `);
+  }
+
+  /**
+   * The policy for a command in a guild (its default if never changed)
+   */
+  getPolicy(guildId: string, command: string): CommandPolicy {
+    const row = this.db
+      .query<CommandPermissionRow, [string, string]>(
+        'SELECT * FROM command_permissions WHERE guild_id = ? AND command = ?'
+      )
+      .get(guildId, command);
+
+    if (!row) {
+      return { command, roleIds: [], permission: getDefaultPermission(command), customized: false };
+    }
+    return {
+      command,
+      roleIds: JSON.parse(row.role_ids) as string[],
+      permission: row.permission,
+      customized: true,
+    };
+  }
+
+  /**
+   * Whether a member may run a command
+   */
+  isAllowed(guildId: string, command: string, member: CommandMember): boolean {
+    if (member.permissions?.has(PermissionFlagsBits.Administrator)) {
+      return true;
+    }
+
+    // Managing the policy is never delegated
+    const policy =
+      command === PERMISSIONS_COMMAND
+        ? { roleIds: [], permission: getDefaultPermission(command) }
+        : this.getPolicy(guildId, command);
+
+    if (policy.roleIds.some((roleId) => member.roleIds.includes(roleId))) {
+      return true;
+    }
+    return policy.permission !== null && !!member.permissions?.has(policy.permission);
+  }
+
+  /**
+   * Let a role run a command
+   */
+  allowRole(guildId: string, command: string, roleId: string, updatedBy: string): CommandPolicy {
+    const policy = this.getPolicy(guildId, command);
+    const roleIds = policy.roleIds.includes(roleId) ? policy.roleIds : [...policy.roleIds, roleId];
+    return this.save(guildId, { ...policy, roleIds }, updatedBy);
+  }
+
+  /**
+   * Stop letting a role run a command
+   */
+  removeRole(guildId: string, command: string, roleId: string, updatedBy: string): CommandPolicy {
+    const policy = this.getPolicy(guildId, command);
+    const roleIds = policy.roleIds.filter((id) => id !== roleId);
+    return this.save(guildId, { ...policy, roleIds }, updatedBy);
+  }
+
+  /**
+   * Change the permission that allows a command (null: allowed roles only)
+   */
+  setPermission(
+    guildId: string,
+    command: string,
+    permission: CommandPermission | null,
+    updatedBy: string
+  ): CommandPolicy {
+    const policy = this.getPolicy(guildId, command);
+    return this.save(guildId, { ...policy, permission }, updatedBy);
+  }
+
+  /**
+   * Go back to the command's default policy
+   */
+  reset(guildId: string, command: string): CommandPolicy {
+    this.db
+      .query('DELETE FROM command_permissions WHERE guild_id = ? AND command = ?')
+      .run(guildId, command);
+    logger.info('Command permissions reset via command', { guildId, command });
+    return this.getPolicy(guildId, command);
+  }
+
+  /**
+   * Close the underlying database
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  private save(guildId: string, policy: CommandPolicy, updatedBy: string): CommandPolicy {
+    this.db
+      .query(
+        `INSERT INTO command_permissions
+           (guild_id, command, role_ids, permission, updated_by, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(guild_id, command) DO UPDATE SET
+           role_ids = excluded.role_ids,
+           permission = excluded.permission,
+           updated_by = excluded.updated_by,
+           updated_at = excluded.updated_at`
+      )
+      .run(
+        guildId,
+        policy.command,
+        JSON.stringify(policy.roleIds),
+        policy.permission,
+        updatedBy,
+        Date.now()
+      );
+
+    logger.info('Command permissions changed via command', {
+      guildId,
+      command: policy.command,
+      roleIds: policy.roleIds,
+      permission: policy.permission,
+      updatedBy,
+    });
+    return { ...policy, customized: true };
+  }
+}
+
+export const commandPermissionService = new CommandPermissionService();
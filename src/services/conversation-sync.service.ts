@@ -0,0 +1,159 @@
+/**
+ * 🧵 Conversation Sync Service
+ *
+ * Rewrites a fragment's content from the thread's current conversation.
+ *
+ * Shared by every event that changes what a thread says: new replies,
+ * edits (including the starter post) and deletions. Rewrites go through
+ * the update scheduler, so bursts of events become a single PATCH.
+ */
+
+import type { Message, ThreadChannel } from 'discord.js';
+import { env } from '../config/env.js';
+import { getLifecycleModeForForum } from '../config/forums.js';
+import { logger } from '../utils/logger.js';
+import { renderMessageContent } from '../utils/message-renderer.js';
+import { fetchThreadHistory, truncateMessages } from '../utils/thread-history.js';
+import { getThreadStatuses } from '../utils/thread-tags.js';
+import { outboxService } from './outbox.service.js';
+import { threadIndexService } from './thread-index.service.js';
+import { updateScheduler } from './update-scheduler.service.js';
+import { usableApiService } from './usable-api.service.js';
+
+/**
+ * Schedule a debounced conversation rewrite for a thread's fragment
+ */
+export function scheduleConversationSync(thread: ThreadChannel, fragmentId: string): void {
+  updateScheduler.schedule(fragmentId, () => syncConversation(thread, fragmentId));
+}
+
+/**
+ * Rebuild the thread conversation and write it to the fragment
+ */
+export async function syncConversation(thread: ThreadChannel, fragmentId: string): Promise<void> {
+  // A rewrite scheduled before `/unlink-fragment` must not touch the fragment
+  if (threadIndexService.get(thread.id)?.syncStatus === 'detached') {
+    logger.debug('Thread detached, skipping conversation sync', { threadId: thread.id });
+    return;
+  }
+
+  // Fetch all messages in the thread to build complete conversation
+  const conversation = await buildThreadConversation(thread);
+
+  if (!conversation) {
+    logger.warn('Could not build thread conversation', {
+      threadId: thread.id,
+    });
+    return;
+  }
+
+  // Update the fragment with the full conversation
+  const success = await outboxService.updateFragment(thread.id, {
+    fragmentId,
+    content: formatConversationContent(
+      thread,
+      conversation,
+      thread.parentId && getLifecycleModeForForum(thread.parentId) !== 'tag'
+        ? getThreadStatuses(thread)
+        : undefined
+    ),
+  });
+
+  threadIndexService.markSyncStatus(thread.id, success ? 'synced' : 'failed');
+
+  if (success) {
+    logger.info('Successfully updated fragment conversation', {
+      threadId: thread.id,
+      fragmentId,
+      messageCount: conversation.split('\n---\n').length - 1,
+    });
+  } else {
+    logger.error('Failed to update fragment', {
+      threadId: thread.id,
+      fragmentId,
+    });
+  }
+}
+
+/**
+ * Rebuild a fragment's full content from the thread's conversation
+ *
+ * Returns null when the conversation can't be fetched (e.g. the thread is
+ * already gone on Discord's side).
+ */
+export async function buildConversationContent(
+  thread: ThreadChannel,
+  statuses?: string[]
+): Promise<string | null> {
+  const conversation = await buildThreadConversation(thread);
+  return conversation ? formatConversationContent(thread, conversation, statuses) : null;
+}
+
+function formatConversationContent(
+  thread: ThreadChannel,
+  conversation: string,
+  statuses?: string[]
+): string {
+  return usableApiService.formatThreadUpdate(conversation, {
+    threadName: thread.name,
+    channelName: thread.parent?.name,
+    guildName: thread.guild.name,
+    timestamp: new Date(),
+    statuses,
+  });
+}
+
+/**
+ * Build a formatted conversation from all messages in a thread
+ * Excludes bot messages to keep the conversation clean
+ */
+async function buildThreadConversation(thread: ThreadChannel): Promise<string | null> {
+  try {
+    // Walk the full thread history (paginated, up to the configured ceiling)
+    const history = await fetchThreadHistory(thread);
+
+    // Filter out bot messages (history is already sorted oldest first)
+    const userMessages = history.messages.filter((msg) => !msg.author.bot);
+
+    if (userMessages.length === 0) {
+      return null;
+    }
+
+    const formatMessage = async (msg: Message): Promise<string> => {
+      const timestamp = msg.createdAt.toISOString();
+      return `### ${msg.author.username} - ${timestamp}\n\n${await renderMessageContent(msg)}`;
+    };
+
+    if (env.THREAD_HISTORY_TRUNCATION === 'none') {
+      const formattedMessages = await Promise.all(userMessages.map(formatMessage));
+      return formattedMessages.join('\n\n---\n\n');
+    }
+
+    // Keep starter post + first N + last M, with a marker for what was left out
+    const { head, tail, omittedCount } = truncateMessages(userMessages, {
+      keepFirst: env.THREAD_HISTORY_KEEP_FIRST,
+      keepLast: env.THREAD_HISTORY_KEEP_LAST,
+      totalCount: userMessages.length + (history.totalCount - history.messages.length),
+      starterId: thread.id,
+    });
+
+    if (omittedCount > 0) {
+      logger.info('Thread conversation truncated', {
+        threadId: thread.id,
+        kept: head.length + tail.length,
+        omittedCount,
+      });
+    }
+
+    const formattedMessages = [
+      ...(await Promise.all(head.map(formatMessage))),
+      ...(omittedCount > 0 ? [`_… ${omittedCount} messages omitted …_`] : []),
+      ...(await Promise.all(tail.map(formatMessage))),
+    ];
+
+    return formattedMessages.join('\n\n---\n\n');
+  } catch (error) {
+    logger.error('Error building thread conversation', { error, threadId: thread.id });
+    return null;
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * 👀 Forum Config Watcher
+ *
+ * Reloads the forum configuration (FORUMS_CONFIG_PATH) without a restart.
+ *
+ * Triggers:
+ * - The config file changes on disk (when FORUMS_CONFIG_WATCH is on)
+ * - The process receives SIGHUP (wired in index.ts)
+ *
+ * The file's directory is watched rather than the file itself: editors and
+ * Kubernetes ConfigMap mounts replace files by rename/symlink swap, which a
+ * watch on the original inode would miss. Only events for the config file
+ * itself (or the ConfigMap `..data` symlink) count, so other files in the
+ * directory - e.g. SQLite databases in ./data - don't trigger reloads. Bursts
+ * of events are debounced into a single reload.
+ *
+ * Env overrides (DISCORD_FORUM_MAPPINGS, THREAD_LIFECYCLE_FORUM_MODES) are
+ * still applied on reload, but are fixed for the lifetime of the process.
+ */
+
+import { type FSWatcher, watch } from 'node:fs';
+import { basename, dirname } from 'node:path';
+import { env } from '../config/env.js';
+import { ForumConfigError, reloadForumConfig } from '../config/forums.js';
+import { logger } from '../utils/logger.js';
+
+/** Quiet window before a burst of file events triggers a reload */
+const RELOAD_DEBOUNCE_MS = 500;
+/** Symlink Kubernetes swaps when a ConfigMap mount is updated */
+const CONFIGMAP_DATA_LINK = '..data';
+
+export class ForumConfigWatcher {
+  private watcher: FSWatcher | null = null;
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Start watching the config file for changes
+   */
+  start(path: string | undefined = env.FORUMS_CONFIG_PATH): void {
+    if (!path || !env.FORUMS_CONFIG_WATCH) {
+      return;
+    }
+
+    try {
+      const configName = basename(path);
+      this.watcher = watch(dirname(path), (_event, filename) => {
+        // Some platforms don't report the file name; reload to be safe
+        if (!filename || filename === configName || filename === CONFIGMAP_DATA_LINK) {
+          this.scheduleReload();
+        }
+      });
+      logger.info('Watching forum config for changes', { path });
+    } catch (error) {
+      logger.warn('Could not watch forum config, reload with SIGHUP instead', { path, error });
+    }
+  }
+
+  /**
+   * Stop watching the config file
+   */
+  stop(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+  }
+
+  /**
+   * Reload the forum config now, logging what changed
+   *
+   * @returns Whether the new config was applied
+   */
+  reload(reason: string): boolean {
+    try {
+      const { added, removed, changed } = reloadForumConfig();
+      const changedForums = Object.keys(changed);
+
+      if (added.length === 0 && removed.length === 0 && changedForums.length === 0) {
+        logger.debug('Forum config reloaded, no changes', { reason });
+        return true;
+      }
+
+      logger.info('Forum config reloaded', { reason, added, removed, changed });
+      return true;
+    } catch (error) {
+      if (error instanceof ForumConfigError) {
+        logger.error('Rejected invalid forum config, keeping the previous one', {
+          reason,
+          error: error.message,
+          issues: error.issues,
+        });
+        return false;
+      }
+
+      logger.error('Unexpected error reloading forum config', { reason, error });
+      return false;
+    }
+  }
+
+  private scheduleReload(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.reload('file change');
+    }, RELOAD_DEBOUNCE_MS);
+  }
+}
+
+export const forumConfigWatcher = new ForumConfigWatcher();
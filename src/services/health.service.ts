@@ -3,17 +3,40 @@
  *
  * Provides HTTP endpoints for Kubernetes health checks:
  * - /health or /api/health → Liveness probe (process is alive)
+ * - /ready or /api/ready → Readiness probe (Discord gateway connected)
+ * - /health/details → Diagnostics: gateway, last events, Usable API, queues, config
+ * - /metrics → Prometheus metrics (see utils/metrics.ts)
+ *
+ * The same server receives signed Usable webhooks on /webhooks/usable
+ * (see handlers/usable-webhook.handler.ts).
  *
  * Runs on port 3000 to satisfy K8s probe requirements
  */
 
-import type { Client } from 'discord.js';
+import { type Client, Status } from 'discord.js';
+import { env } from '../config/env.js';
+import { getTrackedForums } from '../config/forums.js';
+import { USABLE_WEBHOOK_PATH, handleUsableWebhook } from '../handlers/usable-webhook.handler.js';
+import { withCorrelationId } from '../utils/correlation.js';
+import { getLastEventTimes } from '../utils/event-activity.js';
 import { logger } from '../utils/logger.js';
+import { discordGatewayPing, renderMetrics } from '../utils/metrics.js';
+import { outboxService } from './outbox.service.js';
+import { updateScheduler } from './update-scheduler.service.js';
+import { type UsableProbeResult, usableApiService } from './usable-api.service.js';
+
+/** Latest Usable reachability probe, shared by /health/details requests */
+interface UsableProbeCache {
+  checkedAt: Date;
+  results: UsableProbeResult[];
+}
 
 export class HealthService {
   private server: ReturnType<typeof Bun.serve> | null = null;
   private discordClient: Client | null = null;
   private readonly port: number;
+  private usableProbe: UsableProbeCache | null = null;
+  private usableProbeInFlight: Promise<UsableProbeCache> | null = null;
 
   constructor(port = 3000) {
     this.port = port;
@@ -27,10 +50,13 @@ export class HealthService {
   }
 
   /**
-   * Check if the Discord bot is ready
+   * Check if the Discord bot is ready (logged in and the gateway connected)
    */
   private isReady(): boolean {
-    return this.discordClient?.isReady() ?? false;
+    if (!this.discordClient?.isReady()) {
+      return false;
+    }
+    return this.discordClient.ws.status === Status.Ready;
   }
 
   /**
@@ -42,37 +68,40 @@ export class HealthService {
       fetch: (req) => {
         const url = new URL(req.url);
 
+        // Prometheus scrape
+        if (url.pathname === '/metrics') {
+          return this.metricsResponse();
+        }
+
+        // Fragment events pushed by Usable
+        if (url.pathname === USABLE_WEBHOOK_PATH) {
+          return withCorrelationId(() => handleUsableWebhook(req, this.discordClient));
+        }
+
         // Liveness probes - always return 200 if process is running
         // Support common Kubernetes health check paths
         if (url.pathname === '/health' || url.pathname === '/api/health') {
-          return new Response(
-            JSON.stringify({
-              status: 'ok',
-              timestamp: new Date().toISOString(),
-            }),
-            {
-              status: 200,
-              headers: { 'Content-Type': 'application/json' },
-            }
-          );
+          return jsonResponse({ status: 'ok', timestamp: new Date().toISOString() });
         }
 
         // Readiness probes - return 200 only if Discord bot is connected
-        if (url.pathname === '/health' || url.pathname === '/api/health') {
+        if (url.pathname === '/ready' || url.pathname === '/api/ready') {
           const ready = this.isReady();
-          return new Response(
-            JSON.stringify({
+          return jsonResponse(
+            {
               status: ready ? 'ready' : 'not_ready',
               discord_connected: ready,
               timestamp: new Date().toISOString(),
-            }),
-            {
-              status: ready ? 200 : 503,
-              headers: { 'Content-Type': 'application/json' },
-            }
+            },
+            ready ? 200 : 503
           );
         }
 
+        // Diagnostics - always 200, the body says what's wrong
+        if (url.pathname === '/health/details') {
+          return this.getDetails().then((details) => jsonResponse(details));
+        }
+
         // Default 404 for unknown paths
         return new Response('Not Found', { status: 404 });
       },
@@ -80,7 +109,121 @@ export class HealthService {
 
     logger.info(`Health check server started on port ${this.port}`, {
       liveness_endpoints: '/health, api/health',
-      readiness_endpoints: '/health, api/health',
+      readiness_endpoints: '/ready, api/ready',
+      details_endpoint: '/health/details',
+      metrics_endpoint: '/metrics',
+      usable_webhook: env.USABLE_WEBHOOK_SECRET ? USABLE_WEBHOOK_PATH : 'disabled',
+    });
+  }
+
+  /**
+   * Collect the diagnostics served on /health/details
+   */
+  private async getDetails(): Promise<Record<string, unknown>> {
+    const client = this.discordClient;
+    const ping = client?.ws.ping ?? -1;
+    const forums = getTrackedForums();
+    const usable = await this.getUsableProbe();
+
+    return {
+      status: this.isReady() ? 'ready' : 'not_ready',
+      timestamp: new Date().toISOString(),
+      uptime_seconds: Math.round(process.uptime()),
+      discord: {
+        connected: this.isReady(),
+        gateway_status: client ? Status[client.ws.status] : null,
+        // -1 until the first heartbeat has been acknowledged
+        ping_ms: ping >= 0 ? ping : null,
+        shards: client
+          ? client.ws.shards.map((shard) => ({
+              id: shard.id,
+              status: Status[shard.status],
+              ping_ms: shard.ping >= 0 ? shard.ping : null,
+            }))
+          : [],
+        last_event_received: getLastEventTimes(),
+      },
+      usable: {
+        reachable: usable.results.every((result) => result.reachable),
+        checked_at: usable.checkedAt.toISOString(),
+        workspaces: usable.results.map((result) => ({
+          workspace_id: result.workspaceId,
+          reachable: result.reachable,
+          status: result.status,
+          latency_ms: result.latencyMs,
+          error: result.error,
+        })),
+      },
+      queues: {
+        outbox_pending: outboxService.pendingCount(),
+        scheduled_updates: updateScheduler.pendingCount,
+      },
+      config: {
+        node_env: env.NODE_ENV,
+        log_level: env.LOG_LEVEL,
+        default_workspace_id: env.USABLE_WORKSPACE_ID,
+        reverse_sync: env.REVERSE_SYNC_ENABLED,
+        usable_webhook: Boolean(env.USABLE_WEBHOOK_SECRET),
+        tracked_forums: forums.map((forum) => ({
+          forum_id: forum.forumId,
+          name: forum.name ?? null,
+          workspace_id: forum.workspaceId,
+          lifecycle_mode: forum.lifecycleMode,
+          features: Object.entries(forum.features)
+            .filter(([, enabled]) => enabled)
+            .map(([feature]) => feature),
+          reverse_sync_rules: forum.reverseSync.length,
+        })),
+      },
+    };
+  }
+
+  /**
+   * Probe every workspace in use, reusing the last result for a while
+   *
+   * Concurrent requests share one probe, so a busy dashboard can't flood Usable.
+   */
+  private async getUsableProbe(): Promise<UsableProbeCache> {
+    const age = this.usableProbe
+      ? Date.now() - this.usableProbe.checkedAt.getTime()
+      : Number.POSITIVE_INFINITY;
+    if (this.usableProbe && age < env.HEALTH_USABLE_PROBE_TTL_MS) {
+      return this.usableProbe;
+    }
+
+    if (!this.usableProbeInFlight) {
+      const workspaceIds = new Set([
+        env.USABLE_WORKSPACE_ID,
+        ...getTrackedForums().map((forum) => forum.workspaceId),
+      ]);
+      this.usableProbeInFlight = Promise.all(
+        [...workspaceIds].map((workspaceId) => usableApiService.probe(workspaceId))
+      )
+        .then((results) => {
+          this.usableProbe = { checkedAt: new Date(), results };
+          return this.usableProbe;
+        })
+        .finally(() => {
+          this.usableProbeInFlight = null;
+        });
+    }
+
+    return this.usableProbeInFlight;
+  }
+
+  /**
+   * Render the metrics, refreshing the gateway ping first
+   */
+  private metricsResponse(): Response {
+    const ping = this.discordClient?.ws.ping ?? -1;
+    // -1 until the first heartbeat has been acknowledged
+    if (ping >= 0) {
+      discordGatewayPing.set(ping / 1000);
+    }
+
+    return new Response(renderMetrics(), {
+      status: 200,
+      headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
     });
   }
 
@@ -94,3 +237,10 @@ export class HealthService {
     }
   }
 }
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,590 @@
+/**
+ * 📮 Outbox Service
+ *
+ * Durable queue for Usable API writes that failed.
+ *
+ * Flow:
+ * 1. A create or update fails → it's written to the outbox (SQLite) with an
+ *    attempt count and the time of the next retry
+ * 2. A background worker drains due entries with exponential backoff
+ * 3. Once a create lands, the thread is indexed and the bot's failure message
+ *    is edited into the normal confirmation message
+ *
+ * Updates are merged per fragment (newer fields win) and run through the
+ * update scheduler, so a retried write can never overtake a newer one. When
+ * a live update succeeds, the fields it wrote are pruned from the outbox.
+ * Writes Usable rejects for good (4xx other than 429) are never queued, and
+ * a queued one that starts getting rejected is marked dead right away.
+ * Creates keep the idempotency key of their first attempt, so a retry of a
+ * create Usable already stored doesn't make a duplicate.
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { Client, ThreadChannel } from 'discord.js';
+import { env } from '../config/env.js';
+import { getWorkspaceForForum } from '../config/forums.js';
+import type {
+  CreateFragmentRequest,
+  CreateFragmentResponse,
+  UpdateFragmentRequest,
+} from '../types/usable.js';
+import { buildConfirmationMessage } from '../utils/confirmation-message.js';
+import { withCorrelationId } from '../utils/correlation.js';
+import { getCreatedFragmentState } from '../utils/fragment-request.js';
+import { logger } from '../utils/logger.js';
+import {
+  fragmentWritesFailedTotal,
+  fragmentsCreatedTotal,
+  fragmentsUpdatedTotal,
+} from '../utils/metrics.js';
+import { POSSIBLE_DUPLICATE_TAG } from '../utils/related-fragments.js';
+import { openDatabase } from '../utils/sqlite.js';
+import { auditLogService } from './audit-log.service.js';
+import { threadIndexService } from './thread-index.service.js';
+import { updateScheduler } from './update-scheduler.service.js';
+import { type UpdateFragmentResult, usableApiService } from './usable-api.service.js';
+
+type OutboxKind = 'create' | 'update';
+type OutboxStatus = 'pending' | 'dead';
+/** Result of retrying an entry: written, try again later, or give up now */
+type RetryOutcome = 'done' | 'retry' | 'rejected';
+
+interface OutboxRow {
+  id: number;
+  kind: OutboxKind;
+  thread_id: string;
+  forum_id: string | null;
+  fragment_id: string | null;
+  payload: string;
+  failure_message_id: string | null;
+  idempotency_key: string | null;
+  attempts: number;
+  next_attempt_at: number;
+  status: OutboxStatus;
+  created_at: number;
+}
+
+export interface OutboxStartOptions {
+  /** Called after a queued create lands (e.g. to catch up on replies) */
+  onFragmentCreated?: (thread: ThreadChannel, fragmentId: string) => void;
+}
+
+/** Fields that a successful update makes stale in a queued update */
+const SUPERSEDABLE_FIELDS = [
+  'title',
+  'content',
+  'summary',
+  'tags',
+  'fragmentTypeId',
+  'status',
+] as const satisfies ReadonlyArray<keyof UpdateFragmentRequest>;
+
+export class OutboxService {
+  private db: Database;
+  private client: Client | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  /** The drain in progress, if any (awaited before the database is closed) */
+  private draining: Promise<void> | null = null;
+  private closing = false;
+  private options: OutboxStartOptions = {};
+
+  constructor(path: string = env.OUTBOX_PATH) {
+    this.db = openDatabase(path);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS outbox (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        kind TEXT NOT NULL,
+        thread_id TEXT NOT NULL,
+        forum_id TEXT,
+        fragment_id TEXT,
+        payload TEXT NOT NULL,
+        failure_message_id TEXT,
+        idempotency_key TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        created_at INTEGER NOT NULL
+      )
+    `);
+    this.migrate();
+  }
+
+  /**
+   * Add columns introduced after the table was first created
+   */
+  private migrate(): void {
+    const columns = this.db
+      .query<{ name: string }, []>('PRAGMA table_info(outbox)')
+      .all()
+      .map((column) => column.name);
+
+    if (!columns.includes('idempotency_key')) {
+      this.db.run('ALTER TABLE outbox ADD COLUMN idempotency_key TEXT');
+    }
+  }
+
+  /**
+   * Queue a failed fragment creation
+   */
+  enqueueCreate(entry: {
+    threadId: string;
+    forumId: string;
+    request: CreateFragmentRequest;
+    /** The key the failed attempt was sent with - retries must reuse it */
+    idempotencyKey: string;
+    failureMessageId?: string;
+  }): void {
+    const now = Date.now();
+    this.db
+      .query(
+        `INSERT INTO outbox
+           (kind, thread_id, forum_id, payload, failure_message_id, idempotency_key,
+            next_attempt_at, created_at)
+         VALUES ('create', ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        entry.threadId,
+        entry.forumId,
+        JSON.stringify(entry.request),
+        entry.failureMessageId ?? null,
+        entry.idempotencyKey,
+        now + env.OUTBOX_BASE_DELAY_MS,
+        now
+      );
+
+    logger.warn('Queued failed fragment creation in outbox', { threadId: entry.threadId });
+  }
+
+  /**
+   * Queue a failed fragment update, merging with any pending update for the fragment
+   */
+  enqueueUpdate(threadId: string, request: UpdateFragmentRequest): void {
+    const now = Date.now();
+    const existing = this.findPendingUpdate(request.fragmentId);
+
+    if (existing) {
+      const previous = JSON.parse(existing.payload) as UpdateFragmentRequest;
+      this.db
+        .query('UPDATE outbox SET payload = ? WHERE id = ?')
+        .run(JSON.stringify(mergeUpdates(previous, request)), existing.id);
+    } else {
+      this.db
+        .query(
+          `INSERT INTO outbox (kind, thread_id, fragment_id, payload, next_attempt_at, created_at)
+           VALUES ('update', ?, ?, ?, ?, ?)`
+        )
+        .run(
+          threadId,
+          request.fragmentId,
+          JSON.stringify(request),
+          now + env.OUTBOX_BASE_DELAY_MS,
+          now
+        );
+    }
+
+    logger.warn('Queued failed fragment update in outbox', {
+      threadId,
+      fragmentId: request.fragmentId,
+      merged: !!existing,
+    });
+  }
+
+  /**
+   * Update a fragment now, queueing the update if it fails in a retryable way
+   */
+  async updateFragment(threadId: string, request: UpdateFragmentRequest): Promise<boolean> {
+    const result = await usableApiService.updateFragment(request, getThreadWorkspace(threadId));
+    const success = result === 'updated';
+
+    recordUpdateResult(threadId, success);
+    if (success) {
+      this.pruneSuperseded(request);
+      recordWrittenState(threadId, request);
+    } else if (result === 'retryable') {
+      this.enqueueUpdate(threadId, request);
+    } else {
+      logger.error('Usable rejected fragment update, not queueing it for retry', {
+        threadId,
+        fragmentId: request.fragmentId,
+      });
+    }
+
+    return success;
+  }
+
+  /**
+   * Whether a fragment creation for this thread is waiting to be retried
+   */
+  hasPendingCreate(threadId: string): boolean {
+    const row = this.db
+      .query<{ id: number }, [string]>(
+        `SELECT id FROM outbox WHERE kind = 'create' AND status = 'pending' AND thread_id = ?`
+      )
+      .get(threadId);
+    return row !== null;
+  }
+
+  /**
+   * Drop every pending entry for a thread (e.g. when it's linked to another
+   * fragment or detached)
+   *
+   * @returns The number of entries dropped
+   */
+  discardPending(threadId: string): number {
+    const { changes } = this.db
+      .query(`DELETE FROM outbox WHERE status = 'pending' AND thread_id = ?`)
+      .run(threadId);
+
+    if (changes > 0) {
+      logger.info('Discarded pending outbox entries for thread', { threadId, count: changes });
+    }
+    return changes;
+  }
+
+  /**
+   * Number of entries waiting to be retried
+   */
+  pendingCount(): number {
+    const row = this.db
+      .query<{ count: number }, []>(`SELECT COUNT(*) AS count FROM outbox WHERE status = 'pending'`)
+      .get();
+    return row?.count ?? 0;
+  }
+
+  /**
+   * Start the background worker
+   */
+  start(client: Client, options: OutboxStartOptions = {}): void {
+    this.client = client;
+    this.options = options;
+    this.timer = setInterval(() => void this.drain(), env.OUTBOX_POLL_INTERVAL_MS);
+
+    logger.info('Outbox worker started', {
+      pending: this.pendingCount(),
+      pollIntervalMs: env.OUTBOX_POLL_INTERVAL_MS,
+    });
+  }
+
+  /**
+   * Stop the background worker
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Outbox worker stopped');
+    }
+  }
+
+  /**
+   * Stop the worker, let a running drain finish its current entry, then
+   * close the underlying database
+   */
+  async close(): Promise<void> {
+    this.closing = true;
+    this.stop();
+    await this.draining;
+    this.db.close();
+  }
+
+  /**
+   * Retry every entry that is due
+   */
+  async drain(): Promise<void> {
+    if (this.draining || this.closing || !this.client) {
+      return;
+    }
+
+    this.draining = this.drainDue();
+    try {
+      await this.draining;
+    } finally {
+      this.draining = null;
+    }
+  }
+
+  private async drainDue(): Promise<void> {
+    try {
+      const due = this.db
+        .query<OutboxRow, [number]>(
+          `SELECT * FROM outbox WHERE status = 'pending' AND next_attempt_at <= ?
+           ORDER BY id LIMIT 20`
+        )
+        .all(Date.now());
+
+      for (const row of due) {
+        // Shutting down: leave the rest for the next start
+        if (this.closing) {
+          break;
+        }
+
+        // Each retry gets its own correlation ID, like a Discord event
+        await withCorrelationId(async () => {
+          const outcome =
+            row.kind === 'create' ? await this.retryCreate(row) : await this.retryUpdate(row);
+
+          if (outcome === 'done') {
+            this.db.query('DELETE FROM outbox WHERE id = ?').run(row.id);
+          } else {
+            this.recordFailure(row, outcome === 'rejected');
+          }
+        });
+      }
+    } catch (error) {
+      logger.error('Error draining outbox', { error });
+    }
+  }
+
+  private async retryCreate(row: OutboxRow): Promise<RetryOutcome> {
+    const request = JSON.parse(row.payload) as CreateFragmentRequest;
+    // Entries queued before keys were stored get one that's stable from now on
+    const result = await usableApiService.createFragment(
+      request,
+      row.idempotency_key ?? `outbox-create-${row.id}`
+    );
+    if (result.outcome !== 'created') {
+      fragmentWritesFailedTotal.inc({ forum: row.forum_id ?? 'unknown', operation: 'create' });
+      return result.outcome === 'rejected' ? 'rejected' : 'retry';
+    }
+    const { fragment } = result;
+    fragmentsCreatedTotal.inc({ forum: row.forum_id ?? 'unknown' });
+
+    threadIndexService.upsert({
+      threadId: row.thread_id,
+      fragmentId: fragment.fragmentId,
+      forumId: row.forum_id ?? '',
+      workspaceId: request.workspaceId,
+      extraTags: request.tags?.filter((tag) => tag === POSSIBLE_DUPLICATE_TAG),
+      remote: getCreatedFragmentState(request, fragment),
+    });
+
+    logger.info('Outbox create succeeded', {
+      threadId: row.thread_id,
+      fragmentId: fragment.fragmentId,
+      attempts: row.attempts + 1,
+    });
+
+    await this.notifyThread(row, request, fragment);
+    return 'done';
+  }
+
+  private async retryUpdate(row: OutboxRow): Promise<RetryOutcome> {
+    const fragmentId = row.fragment_id ?? '';
+    let result = 'retryable' as UpdateFragmentResult;
+
+    await updateScheduler.enqueue(fragmentId, async () => {
+      // Re-read inside the queue: a live update may have pruned this entry meanwhile
+      const current = this.db
+        .query<OutboxRow, [number]>('SELECT * FROM outbox WHERE id = ?')
+        .get(row.id);
+      if (!current) {
+        result = 'updated';
+        return;
+      }
+
+      const request = JSON.parse(current.payload) as UpdateFragmentRequest;
+      result = await usableApiService.updateFragment(
+        request,
+        getThreadWorkspace(current.thread_id)
+      );
+      recordUpdateResult(current.thread_id, result === 'updated');
+      if (result === 'updated') {
+        recordWrittenState(current.thread_id, request);
+      }
+    });
+
+    if (result === 'updated') {
+      threadIndexService.markSyncStatus(row.thread_id, 'synced');
+      logger.info('Outbox update succeeded', {
+        threadId: row.thread_id,
+        fragmentId,
+        attempts: row.attempts + 1,
+      });
+      return 'done';
+    }
+
+    return result === 'rejected' ? 'rejected' : 'retry';
+  }
+
+  /**
+   * Turn the thread's failure message into the confirmation message
+   */
+  private async notifyThread(
+    row: OutboxRow,
+    request: CreateFragmentRequest,
+    fragment: CreateFragmentResponse
+  ): Promise<void> {
+    const { fragmentId } = fragment;
+    try {
+      const channel = await this.client?.channels.fetch(row.thread_id);
+      if (!channel?.isThread()) {
+        return;
+      }
+
+      const confirmation = buildConfirmationMessage(request, fragment, { label: 'after retry' });
+      const failureMessage = row.failure_message_id
+        ? await channel.messages.fetch(row.failure_message_id).catch(() => null)
+        : null;
+
+      if (failureMessage) {
+        // Clear the failure text - the embed replaces it
+        await failureMessage.edit({ ...confirmation, content: null });
+      } else {
+        await channel.send(confirmation);
+      }
+
+      this.options.onFragmentCreated?.(channel, fragmentId);
+    } catch (error) {
+      logger.error('Failed to notify thread after outbox create', {
+        error,
+        threadId: row.thread_id,
+        fragmentId,
+      });
+    }
+  }
+
+  /**
+   * Tell moderators a fragment won't be created without their help
+   */
+  private async auditGaveUp(threadId: string, attempts: number, rejected: boolean): Promise<void> {
+    const channel = await this.client?.channels.fetch(threadId).catch(() => null);
+    if (channel?.isThread()) {
+      await auditLogService.recordFragmentFailure(channel, {
+        stage: rejected ? 'rejected' : 'gave_up',
+        source: 'outbox retry',
+        attempts,
+      });
+    }
+  }
+
+  private recordFailure(row: OutboxRow, rejected = false): void {
+    const attempts = row.attempts + 1;
+
+    if (rejected || attempts >= env.OUTBOX_MAX_ATTEMPTS) {
+      this.db
+        .query(`UPDATE outbox SET attempts = ?, status = 'dead' WHERE id = ?`)
+        .run(attempts, row.id);
+      logger.error(
+        rejected
+          ? 'Outbox entry rejected by Usable, giving up'
+          : 'Outbox entry gave up after max attempts',
+        {
+          id: row.id,
+          kind: row.kind,
+          threadId: row.thread_id,
+          attempts,
+        }
+      );
+      if (row.kind === 'create') {
+        void this.auditGaveUp(row.thread_id, attempts, rejected);
+      }
+      return;
+    }
+
+    const delay = Math.min(env.OUTBOX_BASE_DELAY_MS * 2 ** attempts, env.OUTBOX_MAX_DELAY_MS);
+    this.db
+      .query('UPDATE outbox SET attempts = ?, next_attempt_at = ? WHERE id = ?')
+      .run(attempts, Date.now() + delay, row.id);
+
+    logger.warn('Outbox retry failed, rescheduled', {
+      id: row.id,
+      kind: row.kind,
+      threadId: row.thread_id,
+      attempts,
+      nextRetryInMs: delay,
+    });
+  }
+
+  private findPendingUpdate(fragmentId: string): OutboxRow | null {
+    return this.db
+      .query<OutboxRow, [string]>(
+        `SELECT * FROM outbox WHERE kind = 'update' AND status = 'pending' AND fragment_id = ?`
+      )
+      .get(fragmentId);
+  }
+
+  /**
+   * Drop queued fields that a successful update just overwrote
+   */
+  private pruneSuperseded(request: UpdateFragmentRequest): void {
+    const existing = this.findPendingUpdate(request.fragmentId);
+    if (!existing) {
+      return;
+    }
+
+    const pending = JSON.parse(existing.payload) as UpdateFragmentRequest;
+    const remaining = Object.entries(pending).filter(([field]) => {
+      if (field === 'fragmentId') return false;
+      // A full content rewrite makes earlier patch operations moot
+      if (field === 'patchOperations') return request.content === undefined;
+      return !isSupersedableField(field) || request[field] === undefined;
+    });
+
+    if (remaining.length === 0) {
+      this.db.query('DELETE FROM outbox WHERE id = ?').run(existing.id);
+    } else {
+      const payload = { fragmentId: pending.fragmentId, ...Object.fromEntries(remaining) };
+      this.db
+        .query('UPDATE outbox SET payload = ? WHERE id = ?')
+        .run(JSON.stringify(payload), existing.id);
+    }
+  }
+}
+
+/**
+ * Count a fragment update in the metrics, by the thread's forum
+ */
+function recordUpdateResult(threadId: string, success: boolean): void {
+  const forum = threadIndexService.get(threadId)?.forumId || 'unknown';
+  if (success) {
+    fragmentsUpdatedTotal.inc({ forum });
+  } else {
+    fragmentWritesFailedTotal.inc({ forum, operation: 'update' });
+  }
+}
+
+/**
+ * Remember the tags/status we just wrote, so the reverse sync poller doesn't
+ * mistake our own write for a change made in Usable
+ */
+function recordWrittenState(threadId: string, request: UpdateFragmentRequest): void {
+  if (request.tags || request.status) {
+    threadIndexService.updateRemoteState(threadId, { tags: request.tags, status: request.status });
+  }
+}
+
+function isSupersedableField(field: string): field is (typeof SUPERSEDABLE_FIELDS)[number] {
+  return (SUPERSEDABLE_FIELDS as readonly string[]).includes(field);
+}
+
+/**
+ * Merge two updates for the same fragment (newer fields win, patches accumulate)
+ */
+function mergeUpdates(
+  previous: UpdateFragmentRequest,
+  next: UpdateFragmentRequest
+): UpdateFragmentRequest {
+  const merged: UpdateFragmentRequest = { ...previous, ...next };
+
+  if (next.content !== undefined) {
+    // A full content rewrite makes earlier patch operations moot
+    merged.patchOperations = next.patchOperations;
+  } else if (previous.patchOperations || next.patchOperations) {
+    merged.patchOperations = [...(previous.patchOperations ?? []), ...(next.patchOperations ?? [])];
+  }
+
+  return merged;
+}
+
+/**
+ * Workspace of a thread's fragment (index entry first, then the forum's config)
+ */
+function getThreadWorkspace(threadId: string): string | undefined {
+  const entry = threadIndexService.get(threadId);
+  if (!entry) {
+    return undefined;
+  }
+  return entry.workspaceId ?? getWorkspaceForForum(entry.forumId);
+}
+
+export const outboxService = new OutboxService();
@@ -0,0 +1,422 @@
+/**
+ * 🔁 Reverse Sync Service
+ *
+ * Reflects changes made to fragments in Usable back into their Discord
+ * threads - e.g. the team tags a bug `fixed` and the forum post gets a
+ * "Resolved" tag, a note and is archived.
+ *
+ * Flow:
+ * 1. Every REVERSE_SYNC_INTERVAL_MS, list the fragments updated since the
+ *    last poll in each workspace that has forums with `reverseSync` rules
+ * 2. Find the thread linked to each fragment (thread index)
+ * 3. Compare the fragment's tags/status with the last known state; a rule
+ *    fires when its trigger becomes true (so it fires once, not every poll)
+ * 4. Apply the fired rules to the thread: add forum tags, rename, post a
+ *    note, lock, archive
+ *
+ * Echo loops are avoided both ways:
+ * - Writes the bot makes to Usable update the last known state (see
+ *   OutboxService), so they never look like changes made in Usable
+ * - Before each thread edit the poller records the state it expects the
+ *   thread to end up in; handleThreadUpdate skips the one update that
+ *   matches it (consumeEcho), so other changes in the meantime still sync
+ *
+ * A fragment seen for the first time only records its state; nothing fires.
+ *
+ * Signed Usable webhooks (handlers/usable-webhook.handler.ts) feed the same
+ * logic, so changes arrive immediately when Usable can reach the bot; the
+ * poller then only catches what the webhooks missed.
+ */
+
+import type { Client, ThreadChannel, ThreadEditOptions } from 'discord.js';
+import { env } from '../config/env.js';
+import {
+  type ReverseSyncRule,
+  getForumConfig,
+  getTrackedForums,
+  renderTemplate,
+} from '../config/forums.js';
+import { GUILD_FORUM } from '../types/discord.js';
+import type { Fragment } from '../types/usable.js';
+import { withCorrelationId } from '../utils/correlation.js';
+import { logger } from '../utils/logger.js';
+import { outboxService } from './outbox.service.js';
+import { type RemoteFragmentState, threadIndexService } from './thread-index.service.js';
+import { usableApiService } from './usable-api.service.js';
+
+const LIST_PAGE_SIZE = 50;
+/** How long an expected echo waits for its thread update before it's dropped */
+const ECHO_WINDOW_MS = 10000;
+/** Discord's limit on forum tags per thread */
+const MAX_APPLIED_TAGS = 5;
+const MAX_THREAD_NAME_LENGTH = 100;
+
+/** The thread fields the poller changes, as they should look after an edit */
+interface EchoState {
+  name: string;
+  appliedTags: string[];
+  archived: boolean;
+  locked: boolean;
+}
+
+export class ReverseSyncService {
+  private client: Client | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+  /** Thread ID → thread states the poller's pending edits will produce, in order */
+  private pendingEchoes = new Map<string, { state: EchoState; expiresAt: number }[]>();
+
+  /**
+   * Start polling Usable for fragment changes (and accept webhook changes)
+   */
+  start(client: Client): void {
+    this.client = client;
+    if (!env.REVERSE_SYNC_ENABLED) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.poll(), env.REVERSE_SYNC_INTERVAL_MS);
+
+    logger.info('Reverse sync poller started', { intervalMs: env.REVERSE_SYNC_INTERVAL_MS });
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Reverse sync poller stopped');
+    }
+  }
+
+  /**
+   * Whether a thread update is the echo of one of the poller's own edits
+   *
+   * A matching update is consumed, so the next update to the thread is
+   * synced normally.
+   */
+  consumeEcho(thread: ThreadChannel): boolean {
+    const now = Date.now();
+    const pending = (this.pendingEchoes.get(thread.id) ?? []).filter(
+      (echo) => echo.expiresAt > now
+    );
+    const current = snapshotThread(thread);
+    const index = pending.findIndex((echo) => isSameState(echo.state, current));
+
+    // Updates arrive in order, so expectations before the match won't be seen
+    const remaining = index >= 0 ? pending.slice(index + 1) : pending;
+    if (remaining.length > 0) {
+      this.pendingEchoes.set(thread.id, remaining);
+    } else {
+      this.pendingEchoes.delete(thread.id);
+    }
+
+    return index >= 0;
+  }
+
+  /**
+   * Check every workspace with reverse sync rules for changed fragments
+   */
+  async poll(): Promise<void> {
+    if (this.polling || !this.client) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      const workspaces = new Set(
+        getTrackedForums()
+          .filter((forum) => forum.reverseSync.length > 0)
+          .map((forum) => forum.workspaceId)
+      );
+
+      for (const workspaceId of workspaces) {
+        await withCorrelationId(() => this.pollWorkspace(workspaceId));
+      }
+    } catch (error) {
+      logger.error('Error polling Usable for fragment changes', { error });
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async pollWorkspace(workspaceId: string): Promise<void> {
+    const startedAt = new Date().toISOString();
+    const since = threadIndexService.getPollCursor(workspaceId);
+
+    // First poll of a workspace: start from now rather than replaying its history
+    if (!since) {
+      threadIndexService.setPollCursor(workspaceId, startedAt);
+      return;
+    }
+
+    // Keyset paging: each page is listed from the last `updatedAt` seen, oldest
+    // first, so fragments updated mid-walk can't shift rows out of view. Rows
+    // sharing the cursor's timestamp come back again and are skipped by ID; the
+    // offset only grows when a whole page was already seen (a burst of changes
+    // with one timestamp).
+    let cursor = since;
+    let seenAtCursor = new Set<string>();
+    let offset = 0;
+    for (;;) {
+      const result = await usableApiService.listFragmentsUpdatedSince({
+        workspaceId,
+        updatedSince: cursor,
+        sortBy: 'updatedAt',
+        sortOrder: 'asc',
+        limit: LIST_PAGE_SIZE,
+        offset,
+      });
+      if (!result) {
+        // Retry from the saved cursor next poll (rules don't fire twice)
+        return;
+      }
+
+      let applied = 0;
+      for (const fragment of result.fragments) {
+        // Follow Usable's clock rather than ours, so skew can't skip changes
+        const updatedAt = fragment.updatedAt ?? startedAt;
+        if (updatedAt === cursor && seenAtCursor.has(fragment.fragmentId)) {
+          continue;
+        }
+
+        await this.applyFragmentChange(fragment);
+        applied++;
+        if (Date.parse(updatedAt) > Date.parse(cursor)) {
+          cursor = updatedAt;
+          seenAtCursor = new Set();
+        }
+        if (updatedAt === cursor) {
+          seenAtCursor.add(fragment.fragmentId);
+        }
+      }
+
+      // Save progress per page, so a failed page doesn't replay the earlier ones
+      threadIndexService.setPollCursor(workspaceId, cursor);
+
+      if (result.fragments.length < LIST_PAGE_SIZE) {
+        break;
+      }
+      offset = applied === 0 ? offset + LIST_PAGE_SIZE : 0;
+    }
+  }
+
+  /**
+   * Compare a fragment with its last known state and apply the rules that fire
+   */
+  async applyFragmentChange(fragment: Fragment): Promise<void> {
+    const entry = threadIndexService.findByFragmentId(fragment.fragmentId);
+    if (!entry) {
+      return;
+    }
+
+    const previous = entry.remote;
+    const current: RemoteFragmentState = {
+      tags: fragment.tags ?? [],
+      status: fragment.status ?? previous?.status ?? null,
+    };
+    threadIndexService.recordRemoteState(entry.threadId, current);
+
+    const rules = getForumConfig(entry.forumId)?.reverseSync ?? [];
+    if (!previous || rules.length === 0) {
+      return;
+    }
+
+    const fired = rules.filter((rule) => matches(rule, current) && !matches(rule, previous));
+    if (fired.length === 0) {
+      return;
+    }
+
+    logger.info('Fragment changed in Usable - updating thread', {
+      threadId: entry.threadId,
+      fragmentId: fragment.fragmentId,
+      rules: fired.map((rule) => ({ tag: rule.tag, status: rule.status })),
+    });
+
+    try {
+      await this.applyRules(entry.threadId, fired, fragment);
+    } catch (error) {
+      logger.error('Failed to apply Usable changes to thread', {
+        error,
+        threadId: entry.threadId,
+        fragmentId: fragment.fragmentId,
+      });
+    }
+  }
+
+  /**
+   * A linked fragment was deleted in Usable: detach its thread and say so there
+   */
+  async applyFragmentDeletion(fragmentId: string): Promise<void> {
+    const entry = threadIndexService.findByFragmentId(fragmentId);
+    if (!entry) {
+      return;
+    }
+
+    outboxService.discardPending(entry.threadId);
+    threadIndexService.detach(entry.threadId);
+    logger.info('Fragment deleted in Usable - thread detached', {
+      threadId: entry.threadId,
+      fragmentId,
+    });
+
+    const channel = await this.client?.channels.fetch(entry.threadId).catch(() => null);
+    if (!channel?.isThread()) {
+      return;
+    }
+
+    const wasArchived = channel.archived ?? false;
+    const expect = this.createEchoTracker(channel);
+    // Posting reopens an archived thread
+    expect({ archived: false });
+    await channel.send(
+      '🗑️ The Usable fragment linked to this thread was deleted, so the thread is no longer synced. Use `/link-fragment` to link another one.'
+    );
+    if (wasArchived) {
+      expect({ archived: true });
+      await channel.setArchived(true, `Usable fragment ${fragmentId} deleted`);
+    }
+  }
+
+  /**
+   * Apply fired rules to a thread
+   *
+   * Notes are posted first, since posting reopens an archived thread. A thread
+   * that was archived is archived again afterwards.
+   */
+  private async applyRules(
+    threadId: string,
+    rules: ReverseSyncRule[],
+    fragment: Fragment
+  ): Promise<void> {
+    const channel = await this.client?.channels.fetch(threadId).catch(() => null);
+    if (!channel?.isThread() || channel.parent?.type !== GUILD_FORUM) {
+      return;
+    }
+
+    const thread = channel;
+    const values = { title: thread.name, fragmentTitle: fragment.title };
+    const wasArchived = thread.archived ?? false;
+    const archive = rules.some((rule) => rule.archive);
+    const notes = rules.flatMap((rule) => (rule.note ? [renderTemplate(rule.note, values)] : []));
+
+    const edit: ThreadEditOptions = {};
+    const appliedTags = [
+      ...new Set([...thread.appliedTags, ...resolveForumTags(thread, rules)]),
+    ].slice(0, MAX_APPLIED_TAGS);
+    if (appliedTags.length !== thread.appliedTags.length) {
+      edit.appliedTags = appliedTags;
+    }
+    const rename = rules.filter((rule) => rule.rename).pop()?.rename;
+    const name = rename ? renderTemplate(rename, values).slice(0, MAX_THREAD_NAME_LENGTH) : null;
+    if (name && name !== thread.name) {
+      edit.name = name;
+    }
+    if (rules.some((rule) => rule.lock) && !thread.locked) {
+      edit.locked = true;
+    }
+
+    const hasEdits = Object.keys(edit).length > 0;
+    if (notes.length === 0 && !hasEdits && (!archive || wasArchived)) {
+      return;
+    }
+
+    const reason = `Usable fragment ${fragment.fragmentId} changed`;
+    const expect = this.createEchoTracker(thread);
+    for (const note of notes) {
+      // Posting reopens an archived thread
+      expect({ archived: false });
+      await thread.send(note);
+    }
+    // Archived threads must be reopened before they can be edited
+    if (wasArchived && notes.length === 0 && hasEdits) {
+      expect({ archived: false });
+      await thread.setArchived(false, reason);
+    }
+    if (hasEdits) {
+      expect({
+        ...(edit.name && { name: edit.name }),
+        ...(edit.appliedTags && { appliedTags: [...edit.appliedTags] }),
+        ...(edit.locked && { locked: true }),
+      });
+      await thread.edit({ ...edit, reason });
+    }
+    if (archive || wasArchived) {
+      expect({ archived: true });
+      await thread.setArchived(true, reason);
+    }
+  }
+
+  /**
+   * Track a thread's state across the poller's edits
+   *
+   * Each call records the state the next edit will produce, if it differs
+   * from the current one, so consumeEcho can recognise its update.
+   */
+  private createEchoTracker(thread: ThreadChannel): (changes: Partial<EchoState>) => void {
+    let state = snapshotThread(thread);
+    return (changes) => {
+      const next = { ...state, ...changes };
+      if (isSameState(next, state)) {
+        return;
+      }
+      state = next;
+      const pending = this.pendingEchoes.get(thread.id) ?? [];
+      pending.push({ state: next, expiresAt: Date.now() + ECHO_WINDOW_MS });
+      this.pendingEchoes.set(thread.id, pending);
+    };
+  }
+}
+
+function snapshotThread(thread: ThreadChannel): EchoState {
+  return {
+    name: thread.name,
+    appliedTags: [...thread.appliedTags],
+    archived: thread.archived ?? false,
+    locked: thread.locked ?? false,
+  };
+}
+
+function isSameState(a: EchoState, b: EchoState): boolean {
+  return (
+    a.name === b.name &&
+    a.archived === b.archived &&
+    a.locked === b.locked &&
+    [...a.appliedTags].sort().join(',') === [...b.appliedTags].sort().join(',')
+  );
+}
+
+/**
+ * Whether a rule's trigger holds for a fragment state
+ */
+function matches(rule: ReverseSyncRule, state: RemoteFragmentState): boolean {
+  return (
+    (rule.tag === undefined || state.tags.includes(rule.tag)) &&
+    (rule.status === undefined || state.status === rule.status)
+  );
+}
+
+/**
+ * Map the rules' forum tag names to the forum's tag IDs (case-insensitive)
+ */
+function resolveForumTags(thread: ThreadChannel, rules: ReverseSyncRule[]): string[] {
+  const parent = thread.parent;
+  if (parent?.type !== GUILD_FORUM) {
+    return [];
+  }
+
+  const ids: string[] = [];
+  for (const name of rules.flatMap((rule) => rule.applyTags)) {
+    const tag = parent.availableTags.find((t) => t.name.toLowerCase() === name.toLowerCase());
+    if (tag) {
+      ids.push(tag.id);
+    } else {
+      logger.warn('Forum tag from reverse sync rule not found', { forumId: parent.id, tag: name });
+    }
+  }
+  return ids;
+}
+
+export const reverseSyncService = new ReverseSyncService();
@@ -2,15 +2,29 @@
  * 🔄 Forum Sync Service
  *
  * Handles retroactive syncing of forum threads that weren't processed.
- * Detects unprocessed threads by checking for bot's reply message.
+ * Detects unprocessed threads via the thread index, falling back to
+ * checking for the bot's reply message.
  */
 
+import { randomUUID } from 'node:crypto';
 import type { Client, ForumChannel, ThreadChannel } from 'discord.js';
-import { env, getFragmentTypeForForum } from '../config/env.js';
+import { getForumConfig, getTrackedForums } from '../config/forums.js';
+import { auditLogService } from '../services/audit-log.service.js';
+import { outboxService } from '../services/outbox.service.js';
+import { threadIndexService } from '../services/thread-index.service.js';
 import { usableApiService } from '../services/usable-api.service.js';
 import { GUILD_FORUM } from '../types/discord.js';
+import { buildConfirmationMessage } from '../utils/confirmation-message.js';
 import { retryDiscordApi } from '../utils/discord-retry.js';
+import { scanThreadForFragmentId } from '../utils/fragment-lookup.js';
+import { buildCreateFragmentRequest, getCreatedFragmentState } from '../utils/fragment-request.js';
 import { logger } from '../utils/logger.js';
+import {
+  fragmentWritesFailedTotal,
+  fragmentsCreatedTotal,
+  syncRunsTotal,
+  syncThreadsTotal,
+} from '../utils/metrics.js';
 
 export interface SyncOptions {
   maxAgeHours?: number;
@@ -40,7 +54,7 @@ export async function syncAllForums(
     errors: [],
   };
 
-  for (const forumId of Object.keys(env.DISCORD_FORUM_MAPPINGS)) {
+  for (const { forumId } of getTrackedForums()) {
     const forumResult = await syncForum(client, forumId, options);
     result.scannedThreads += forumResult.scannedThreads;
     result.unprocessedThreads += forumResult.unprocessedThreads;
@@ -68,7 +82,7 @@ export async function syncForum(
     errors: [],
   };
 
-  if (!getFragmentTypeForForum(forumId)) {
+  if (!getForumConfig(forumId)) {
     logger.warn('Forum not configured', { forumId });
     return result;
   }
@@ -87,11 +101,13 @@ export async function syncForum(
   );
 
   result.scannedThreads = recentThreads.length;
+  syncRunsTotal.inc({ forum: forumId, mode: dryRun ? 'dry_run' : 'live' });
 
   for (const thread of recentThreads) {
-    const isProcessed = await isThreadProcessed(thread, client.user?.id || '');
+    const isProcessed = await isThreadProcessed(thread);
     if (isProcessed) {
       result.skippedThreads++;
+      syncThreadsTotal.inc({ forum: forumId, result: 'skipped' });
       continue;
     }
 
@@ -101,6 +117,7 @@ export async function syncForum(
     const success = await processThread(thread, forum);
     if (success) result.processedThreads++;
     else result.failedThreads++;
+    syncThreadsTotal.inc({ forum: forumId, result: success ? 'processed' : 'failed' });
   }
 
   return result;
@@ -115,73 +132,68 @@ export async function syncThread(
   if (!thread?.isThread() || !thread.parent || thread.parent.type !== GUILD_FORUM) return false;
 
   if (!forceReprocess) {
-    const isProcessed = await isThreadProcessed(thread, client.user?.id || '');
+    const isProcessed = await isThreadProcessed(thread);
     if (isProcessed) return true;
   }
 
   return await processThread(thread, thread.parent as ForumChannel);
 }
 
-async function isThreadProcessed(thread: ThreadChannel, botUserId: string): Promise<boolean> {
+async function isThreadProcessed(thread: ThreadChannel): Promise<boolean> {
+  if (threadIndexService.get(thread.id)) return true;
+  if (outboxService.hasPendingCreate(thread.id)) return true;
+
   try {
-    const messages = await thread.messages.fetch({ limit: 10 });
-    return messages.some(
-      (msg) =>
-        msg.author.id === botUserId &&
-        (msg.content.includes('✅ **Issue registered in Usable!**') ||
-          msg.content.includes('Fragment ID:'))
-    );
+    return (await scanThreadForFragmentId(thread, 10)) !== null;
   } catch {
     return true;
   }
 }
 
 async function processThread(thread: ThreadChannel, forum: ForumChannel): Promise<boolean> {
-  const fragmentTypeId = getFragmentTypeForForum(forum.id);
-  if (!fragmentTypeId) return false;
+  const forumConfig = getForumConfig(forum.id);
+  if (!forumConfig) return false;
 
   const starterMessage = await retryDiscordApi(() => thread.fetchStarterMessage(), {
     context: thread.id,
   });
   if (!starterMessage) return false;
 
-  const fragment = await usableApiService.createFragment({
-    title: thread.name,
-    content: usableApiService.formatThreadContent(
-      starterMessage.author.username,
-      starterMessage.content,
-      {
-        threadName: thread.name,
-        channelName: forum.name,
-        guildName: thread.guild.name,
-        timestamp: starterMessage.createdAt,
-      }
-    ),
-    workspaceId: env.USABLE_WORKSPACE_ID,
-    fragmentTypeId,
-    summary: `Forum post by ${starterMessage.author.username}: ${thread.name}`,
-    tags: [
-      ...usableApiService.generateTags({
-        guildName: thread.guild.name,
-        channelName: forum.name,
-        threadName: thread.name,
-      }),
-      'repo:usable-discord-bot',
-      'retroactive-sync',
-    ],
-    repository: 'usable-discord-bot',
-  });
+  const request = await buildCreateFragmentRequest(thread, starterMessage, forumConfig);
+  const idempotencyKey = randomUUID();
+  const result = await usableApiService.createFragment(request, idempotencyKey);
+
+  if (result.outcome === 'created') {
+    const { fragment } = result;
+    fragmentsCreatedTotal.inc({ forum: forum.id });
+    threadIndexService.upsert({
+      threadId: thread.id,
+      fragmentId: fragment.fragmentId,
+      forumId: forum.id,
+      workspaceId: request.workspaceId,
+      remote: getCreatedFragmentState(request, fragment),
+    });
 
-  if (fragment) {
     await thread.send(
-      `✅ **Issue registered in Usable!** _(retroactive sync)_
-📝 Fragment ID: \`${fragment.fragmentId}\`
-
-📌 Title: ${thread.name}
-_This post was processed during a sync operation._`
+      buildConfirmationMessage(request, fragment, {
+        label: 'retroactive sync',
+        footer: 'This post was processed during a sync operation.',
+      })
     );
     return true;
   }
 
+  fragmentWritesFailedTotal.inc({ forum: forum.id, operation: 'create' });
+  if (result.outcome === 'rejected') {
+    await auditLogService.recordFragmentFailure(thread, {
+      stage: 'rejected',
+      source: 'forum sync',
+    });
+    return false;
+  }
+
+  // Queue for retry so the next sync doesn't create a duplicate
+  outboxService.enqueueCreate({ threadId: thread.id, forumId: forum.id, request, idempotencyKey });
+  await auditLogService.recordFragmentFailure(thread, { stage: 'queued', source: 'forum sync' });
   return false;
 }
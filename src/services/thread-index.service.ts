@@ -0,0 +1,301 @@
+/**
+ * 🗂️ Thread Index Service
+ *
+ * Persistent thread → fragment mapping backed by an embedded SQLite file.
+ *
+ * Every handler needs to know which Usable fragment belongs to a Discord
+ * thread. Scanning the thread's messages for the bot's "Fragment ID:" reply
+ * works, but costs a Discord API call per event. The index answers the same
+ * question locally; the message scan is only used as a fallback when the
+ * index misses (see utils/fragment-lookup.ts), which also backfills it.
+ *
+ * Threads unlinked with `/unlink-fragment` keep their entry with the
+ * `detached` status, so they're neither synced nor rediscovered by the scan.
+ *
+ * For syncing back from Usable (services/reverse-sync.service.ts), the index
+ * also remembers each fragment's last known tags and status, and how far the
+ * poller got in each workspace.
+ */
+
+import type { Database } from 'bun:sqlite';
+import { env } from '../config/env.js';
+import type { FragmentStatus } from '../types/usable.js';
+import { logger } from '../utils/logger.js';
+import { openDatabase } from '../utils/sqlite.js';
+
+export type ThreadSyncStatus = 'synced' | 'failed' | 'detached';
+
+/** A fragment's tags and status as last seen in (or written to) Usable */
+export interface RemoteFragmentState {
+  tags: string[];
+  status: FragmentStatus | null;
+}
+
+export interface ThreadIndexEntry {
+  threadId: string;
+  fragmentId: string;
+  forumId: string;
+  /** Workspace the fragment lives in (null for entries indexed before multi-workspace support) */
+  workspaceId: string | null;
+  /** Tags kept on the fragment across tag rebuilds (e.g. `possible-duplicate`) */
+  extraTags: string[];
+  /** Null until the fragment's state is first known */
+  remote: RemoteFragmentState | null;
+  createdAt: Date;
+  updatedAt: Date;
+  syncStatus: ThreadSyncStatus;
+}
+
+interface ThreadIndexRow {
+  thread_id: string;
+  fragment_id: string;
+  forum_id: string;
+  workspace_id: string | null;
+  extra_tags: string | null;
+  remote_tags: string | null;
+  remote_status: FragmentStatus | null;
+  created_at: number;
+  updated_at: number;
+  sync_status: ThreadSyncStatus;
+}
+
+export class ThreadIndexService {
+  private db: Database;
+
+  constructor(path: string = env.THREAD_INDEX_PATH) {
+    this.db = openDatabase(path);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS thread_fragments (
+        thread_id TEXT PRIMARY KEY,
+        fragment_id TEXT NOT NULL,
+        forum_id TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        sync_status TEXT NOT NULL,
+        workspace_id TEXT,
+        extra_tags TEXT,
+        remote_tags TEXT,
+        remote_status TEXT
+      )
+    `);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS fragment_poll_cursors (
+        workspace_id TEXT PRIMARY KEY,
+        updated_since TEXT NOT NULL
+      )
+    `);
+    this.migrate();
+
+    logger.info('Thread index opened', { path });
+  }
+
+  /**
+   * Add columns introduced after the table was first created
+   */
+  private migrate(): void {
+    const columns = this.db
+      .query<{ name: string }, []>('PRAGMA table_info(thread_fragments)')
+      .all()
+      .map((column) => column.name);
+
+    if (!columns.includes('workspace_id')) {
+      this.db.run('ALTER TABLE thread_fragments ADD COLUMN workspace_id TEXT');
+    }
+    if (!columns.includes('extra_tags')) {
+      this.db.run('ALTER TABLE thread_fragments ADD COLUMN extra_tags TEXT');
+    }
+    if (!columns.includes('remote_tags')) {
+      this.db.run('ALTER TABLE thread_fragments ADD COLUMN remote_tags TEXT');
+      this.db.run('ALTER TABLE thread_fragments ADD COLUMN remote_status TEXT');
+    }
+    this.db.run(
+      'CREATE INDEX IF NOT EXISTS thread_fragments_fragment_id ON thread_fragments (fragment_id)'
+    );
+  }
+
+  /**
+   * Look up the index entry for a thread
+   */
+  get(threadId: string): ThreadIndexEntry | null {
+    const row = this.db
+      .query<ThreadIndexRow, [string]>('SELECT * FROM thread_fragments WHERE thread_id = ?')
+      .get(threadId);
+
+    return row ? toEntry(row) : null;
+  }
+
+  /**
+   * Look up the (non-detached) thread linked to a fragment
+   */
+  findByFragmentId(fragmentId: string): ThreadIndexEntry | null {
+    const row = this.db
+      .query<ThreadIndexRow, [string]>(
+        `SELECT * FROM thread_fragments WHERE fragment_id = ? AND sync_status != 'detached'
+         ORDER BY updated_at DESC LIMIT 1`
+      )
+      .get(fragmentId);
+
+    return row ? toEntry(row) : null;
+  }
+
+  /**
+   * Insert or replace the fragment mapping for a thread
+   *
+   * The original creation timestamp is kept when the thread is already indexed,
+   * and so are its extra tags unless new ones are given. The known remote
+   * state is replaced when given, and forgotten when the fragment changes.
+   */
+  upsert(entry: {
+    threadId: string;
+    fragmentId: string;
+    forumId: string;
+    workspaceId: string;
+    extraTags?: string[];
+    remote?: RemoteFragmentState;
+    syncStatus?: ThreadSyncStatus;
+  }): void {
+    const now = Date.now();
+    this.db
+      .query(
+        `INSERT INTO thread_fragments
+           (thread_id, fragment_id, forum_id, workspace_id, extra_tags, remote_tags,
+            remote_status, created_at, updated_at, sync_status)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(thread_id) DO UPDATE SET
+           fragment_id = excluded.fragment_id,
+           forum_id = excluded.forum_id,
+           workspace_id = excluded.workspace_id,
+           extra_tags = COALESCE(excluded.extra_tags, thread_fragments.extra_tags),
+           remote_tags = CASE
+             WHEN excluded.remote_tags IS NOT NULL THEN excluded.remote_tags
+             WHEN excluded.fragment_id = thread_fragments.fragment_id THEN thread_fragments.remote_tags
+           END,
+           remote_status = CASE
+             WHEN excluded.remote_tags IS NOT NULL THEN excluded.remote_status
+             WHEN excluded.fragment_id = thread_fragments.fragment_id THEN thread_fragments.remote_status
+           END,
+           updated_at = excluded.updated_at,
+           sync_status = excluded.sync_status`
+      )
+      .run(
+        entry.threadId,
+        entry.fragmentId,
+        entry.forumId,
+        entry.workspaceId,
+        entry.extraTags ? JSON.stringify(entry.extraTags) : null,
+        entry.remote ? JSON.stringify(entry.remote.tags) : null,
+        entry.remote?.status ?? null,
+        now,
+        now,
+        entry.syncStatus ?? 'synced'
+      );
+  }
+
+  /**
+   * Record the outcome of the latest sync attempt for a thread
+   *
+   * Detached threads stay detached (a sync may still finish after `/unlink-fragment`).
+   */
+  markSyncStatus(threadId: string, syncStatus: Exclude<ThreadSyncStatus, 'detached'>): void {
+    this.db
+      .query(
+        `UPDATE thread_fragments SET sync_status = ?, updated_at = ?
+         WHERE thread_id = ? AND sync_status != 'detached'`
+      )
+      .run(syncStatus, Date.now(), threadId);
+  }
+
+  /**
+   * Record a fragment's full tags and status as just seen in Usable
+   */
+  recordRemoteState(threadId: string, state: RemoteFragmentState): void {
+    this.db
+      .query('UPDATE thread_fragments SET remote_tags = ?, remote_status = ? WHERE thread_id = ?')
+      .run(JSON.stringify(state.tags), state.status, threadId);
+  }
+
+  /**
+   * Update a fragment's known tags and/or status (fields left out are kept)
+   *
+   * Only applies once the full state is known, so a partial write can't pass
+   * for the fragment's whole state.
+   */
+  updateRemoteState(threadId: string, state: Partial<RemoteFragmentState>): void {
+    this.db
+      .query(
+        `UPDATE thread_fragments SET
+           remote_tags = COALESCE(?, remote_tags),
+           remote_status = COALESCE(?, remote_status)
+         WHERE thread_id = ? AND remote_tags IS NOT NULL`
+      )
+      .run(state.tags ? JSON.stringify(state.tags) : null, state.status ?? null, threadId);
+  }
+
+  /**
+   * Where the reverse sync poller left off in a workspace (ISO timestamp)
+   */
+  getPollCursor(workspaceId: string): string | null {
+    const row = this.db
+      .query<{ updated_since: string }, [string]>(
+        'SELECT updated_since FROM fragment_poll_cursors WHERE workspace_id = ?'
+      )
+      .get(workspaceId);
+    return row?.updated_since ?? null;
+  }
+
+  /**
+   * Save where the reverse sync poller left off in a workspace
+   */
+  setPollCursor(workspaceId: string, updatedSince: string): void {
+    this.db
+      .query(
+        `INSERT INTO fragment_poll_cursors (workspace_id, updated_since) VALUES (?, ?)
+         ON CONFLICT(workspace_id) DO UPDATE SET updated_since = excluded.updated_since`
+      )
+      .run(workspaceId, updatedSince);
+  }
+
+  /**
+   * Stop syncing a thread to its fragment, keeping the entry so it isn't rediscovered
+   */
+  detach(threadId: string): void {
+    this.db
+      .query(
+        `UPDATE thread_fragments SET sync_status = 'detached', updated_at = ? WHERE thread_id = ?`
+      )
+      .run(Date.now(), threadId);
+  }
+
+  /**
+   * Remove a thread from the index
+   */
+  remove(threadId: string): void {
+    this.db.query('DELETE FROM thread_fragments WHERE thread_id = ?').run(threadId);
+  }
+
+  /**
+   * Close the underlying database
+   */
+  close(): void {
+    this.db.close();
+    logger.info('Thread index closed');
+  }
+}
+
+function toEntry(row: ThreadIndexRow): ThreadIndexEntry {
+  return {
+    threadId: row.thread_id,
+    fragmentId: row.fragment_id,
+    forumId: row.forum_id,
+    workspaceId: row.workspace_id,
+    extraTags: row.extra_tags ? (JSON.parse(row.extra_tags) as string[]) : [],
+    remote: row.remote_tags
+      ? { tags: JSON.parse(row.remote_tags) as string[], status: row.remote_status }
+      : null,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    syncStatus: row.sync_status,
+  };
+}
+
+export const threadIndexService = new ThreadIndexService();
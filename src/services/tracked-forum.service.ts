@@ -0,0 +1,145 @@
+/**
+ * 📌 Tracked Forum Service
+ *
+ * Forum tracking changes made at runtime with `/track-forum`, persisted in an
+ * embedded SQLite file so they survive restarts.
+ *
+ * Each row is an override on top of the forum config file and env mapping
+ * (see config/forums.ts):
+ * - tracked → the forum is tracked with this fragment type
+ * - untracked → the forum is ignored, even if the file or env lists it
+ */
+
+import type { Database } from 'bun:sqlite';
+import { env } from '../config/env.js';
+import { logger } from '../utils/logger.js';
+import { openDatabase } from '../utils/sqlite.js';
+
+export interface TrackedForumOverride {
+  forumId: string;
+  guildId: string;
+  tracked: boolean;
+  /** Null when the forum is untracked */
+  fragmentTypeId: string | null;
+  updatedBy: string;
+  updatedAt: Date;
+}
+
+interface TrackedForumRow {
+  forum_id: string;
+  guild_id: string;
+  tracked: number;
+  fragment_type_id: string | null;
+  updated_by: string;
+  updated_at: number;
+}
+
+export class TrackedForumService {
+  private db: Database;
+
+  constructor(path: string = env.TRACKED_FORUMS_PATH) {
+    this.db = openDatabase(path);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS tracked_forums (
+        forum_id TEXT PRIMARY KEY,
+        guild_id TEXT NOT NULL,
+        tracked INTEGER NOT NULL,
+        fragment_type_id TEXT,
+        updated_by TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  /**
+   * All runtime overrides
+   */
+  list(): TrackedForumOverride[] {
+    return this.db.query<TrackedForumRow, []>('SELECT * FROM tracked_forums').all().map(toOverride);
+  }
+
+  /**
+   * The runtime override for a forum, if any
+   */
+  get(forumId: string): TrackedForumOverride | null {
+    const row = this.db
+      .query<TrackedForumRow, [string]>('SELECT * FROM tracked_forums WHERE forum_id = ?')
+      .get(forumId);
+    return row ? toOverride(row) : null;
+  }
+
+  /**
+   * Track a forum with the given fragment type
+   */
+  track(entry: {
+    forumId: string;
+    guildId: string;
+    fragmentTypeId: string;
+    updatedBy: string;
+  }): void {
+    this.save({ ...entry, tracked: true, updatedAt: new Date() });
+    logger.info('Forum tracked via command', entry);
+  }
+
+  /**
+   * Stop tracking a forum
+   */
+  untrack(entry: { forumId: string; guildId: string; updatedBy: string }): void {
+    this.save({ ...entry, tracked: false, fragmentTypeId: null, updatedAt: new Date() });
+    logger.info('Forum untracked via command', entry);
+  }
+
+  /**
+   * Put back a previous override (or none) - used when a change is rejected
+   */
+  restore(forumId: string, previous: TrackedForumOverride | null): void {
+    if (previous) {
+      this.save(previous);
+    } else {
+      this.db.query('DELETE FROM tracked_forums WHERE forum_id = ?').run(forumId);
+    }
+  }
+
+  /**
+   * Close the underlying database
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  private save(override: TrackedForumOverride): void {
+    this.db
+      .query(
+        `INSERT INTO tracked_forums
+           (forum_id, guild_id, tracked, fragment_type_id, updated_by, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(forum_id) DO UPDATE SET
+           guild_id = excluded.guild_id,
+           tracked = excluded.tracked,
+           fragment_type_id = excluded.fragment_type_id,
+           updated_by = excluded.updated_by,
+           updated_at = excluded.updated_at`
+      )
+      .run(
+        override.forumId,
+        override.guildId,
+        override.tracked ? 1 : 0,
+        override.fragmentTypeId,
+        override.updatedBy,
+        override.updatedAt.getTime()
+      );
+  }
+}
+
+function toOverride(row: TrackedForumRow): TrackedForumOverride {
+  return {
+    forumId: row.forum_id,
+    guildId: row.guild_id,
+    tracked: row.tracked === 1,
+    fragmentTypeId: row.fragment_type_id,
+    updatedBy: row.updated_by,
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+export const trackedForumService = new TrackedForumService();
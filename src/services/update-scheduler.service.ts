@@ -0,0 +1,132 @@
+/**
+ * ⏱️ Update Scheduler
+ *
+ * Coalesces bursts of thread activity into a single fragment update.
+ *
+ * - schedule() → debounced: waits for a quiet window, but never longer than
+ *   the max delay after the first event. Only the latest task runs.
+ * - enqueue()  → runs right away, but after any in-flight update for the
+ *   same key, so writes to one fragment never overtake each other.
+ * - flush()    → runs everything pending immediately (used on shutdown).
+ */
+
+import { env } from '../config/env.js';
+import { logger } from '../utils/logger.js';
+
+type UpdateTask = () => Promise<void>;
+
+interface PendingUpdate {
+  task: UpdateTask;
+  timer: ReturnType<typeof setTimeout>;
+  firstScheduledAt: number;
+  coalesced: number;
+}
+
+export class UpdateScheduler {
+  private pending = new Map<string, PendingUpdate>();
+  private chains = new Map<string, Promise<void>>();
+  private readonly quietMs: number;
+  private readonly maxDelayMs: number;
+
+  constructor(quietMs = env.UPDATE_DEBOUNCE_MS, maxDelayMs = env.UPDATE_MAX_DELAY_MS) {
+    this.quietMs = quietMs;
+    this.maxDelayMs = maxDelayMs;
+  }
+
+  /**
+   * Schedule a debounced update for a key (usually a fragment ID)
+   *
+   * Replaces any pending task for the same key.
+   */
+  schedule(key: string, task: UpdateTask): void {
+    const now = Date.now();
+    const existing = this.pending.get(key);
+    const firstScheduledAt = existing?.firstScheduledAt ?? now;
+
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
+
+    const delay = Math.max(0, Math.min(this.quietMs, firstScheduledAt + this.maxDelayMs - now));
+    const timer = setTimeout(() => this.fire(key), delay);
+
+    this.pending.set(key, {
+      task,
+      timer,
+      firstScheduledAt,
+      coalesced: existing ? existing.coalesced + 1 : 0,
+    });
+
+    logger.debug('Fragment update scheduled', {
+      key,
+      delayMs: delay,
+      coalesced: existing ? existing.coalesced + 1 : 0,
+    });
+  }
+
+  /**
+   * Run a task after any in-flight update for the same key
+   */
+  enqueue(key: string, task: UpdateTask): Promise<void> {
+    const previous = this.chains.get(key) ?? Promise.resolve();
+    const next = previous.then(task).catch((error) => {
+      logger.error('Scheduled fragment update failed', { key, error });
+    });
+
+    this.chains.set(key, next);
+    next.then(() => {
+      if (this.chains.get(key) === next) {
+        this.chains.delete(key);
+      }
+    });
+
+    return next;
+  }
+
+  /**
+   * Run all pending updates now and wait for everything in flight
+   */
+  async flush(): Promise<void> {
+    const keys = [...this.pending.keys()];
+    if (keys.length > 0 || this.chains.size > 0) {
+      logger.info('Flushing pending fragment updates', {
+        pending: keys.length,
+        inFlight: this.chains.size,
+      });
+    }
+
+    for (const key of keys) {
+      this.fire(key);
+    }
+
+    await Promise.all(this.chains.values());
+  }
+
+  /**
+   * Number of updates waiting for their quiet window
+   */
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  private fire(key: string): void {
+    const pending = this.pending.get(key);
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.pending.delete(key);
+
+    if (pending.coalesced > 0) {
+      logger.info('Running coalesced fragment update', {
+        key,
+        coalescedEvents: pending.coalesced + 1,
+      });
+    }
+
+    void this.enqueue(key, pending.task);
+  }
+}
+
+export const updateScheduler = new UpdateScheduler();
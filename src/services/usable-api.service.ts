@@ -1,77 +1,150 @@
-import axios, { type AxiosInstance, type AxiosError } from 'axios';
+import axios, {
+  type AxiosError,
+  type AxiosInstance,
+  type AxiosRequestConfig,
+  type AxiosResponse,
+} from 'axios';
 import { env } from '../config/env.js';
+import { getApiKeyEnvForWorkspace } from '../config/forums.js';
 import type {
   CreateFragmentRequest,
   CreateFragmentResponse,
+  Fragment,
+  ListFragmentsRequest,
+  ListFragmentsResponse,
+  SearchFragmentsRequest,
+  SearchFragmentsResponse,
   UpdateFragmentRequest,
   UsableError,
 } from '../types/usable.js';
+import { CORRELATION_ID_HEADER, getCorrelationId } from '../utils/correlation.js';
 import { logger } from '../utils/logger.js';
+import { usableApiRequestDuration } from '../utils/metrics.js';
+import { TokenBucket } from '../utils/token-bucket.js';
 
+/** Statuses worth retrying for requests that are safe to repeat */
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+/** Statuses that guarantee the server didn't act on the request */
+const NOT_PROCESSED_STATUSES = new Set([429, 503]);
+/** Network errors raised before the request reached the server */
+const NOT_SENT_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+/** Give up instead of honouring a Retry-After longer than this */
+const MAX_RETRY_AFTER_MS = 60000;
+
+export interface RetryStats {
+  attempts: number;
+  rateLimited: number;
+  waitedMs: number;
+  durationMs: number;
+}
+
+/** Outcome of a reachability probe against one workspace */
+export interface UsableProbeResult {
+  workspaceId: string;
+  /** The API answered (any status below 500) */
+  reachable: boolean;
+  /** HTTP status, or null when no response was received */
+  status: number | null;
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * Outcome of a fragment create: created, failed in a way worth retrying later
+ * (with the same idempotency key), or rejected for good
+ */
+export type CreateFragmentResult =
+  | { outcome: 'created'; fragment: CreateFragmentResponse }
+  | { outcome: 'retryable' | 'rejected' };
+
+/** Lets Usable recognise a repeated create instead of storing a second fragment */
+const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Outcome of a fragment update: written, failed in a way worth retrying later
+ * (network errors, 429, 5xx), or rejected for good (other 4xx)
+ */
+export type UpdateFragmentResult = 'updated' | 'retryable' | 'rejected';
+
+/** Probes fail fast instead of waiting out the client's request timeout */
+const PROBE_TIMEOUT_MS = 5000;
+
+/** HTTP client and rate limiter for one workspace's API key */
+interface WorkspaceClient {
+  apiKeyEnv: string;
+  http: AxiosInstance;
+  rateLimiter: TokenBucket;
+}
+
+/**
+ * Usable REST API client
+ *
+ * Forums can write to different workspaces, each with its own API key, so a
+ * client (and rate limiter) is created lazily per workspace. The key for a
+ * workspace comes from the forum config (`apiKeyEnv`), defaulting to
+ * USABLE_API_KEY.
+ */
 export class UsableApiService {
-  private client: AxiosInstance;
-
-  constructor() {
-    this.client = axios.create({
-      baseURL: env.USABLE_API_URL,
-      headers: {
-        Authorization: `Bearer ${env.USABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      timeout: 30000, // 30 seconds
-    });
-
-    // Request interceptor for logging
-    this.client.interceptors.request.use(
-      (config) => {
-        logger.debug('Usable API Request', {
-          method: config.method?.toUpperCase(),
-          url: config.url,
-        });
-        return config;
-      },
-      (error) => {
-        logger.error('Usable API Request Error', error);
-        return Promise.reject(error);
-      }
-    );
+  private clients = new Map<string, WorkspaceClient>();
 
-    // Response interceptor for logging
-    this.client.interceptors.response.use(
-      (response) => {
-        logger.debug('Usable API Response', {
-          status: response.status,
-          url: response.config.url,
-        });
-        return response;
-      },
-      (error: AxiosError<UsableError>) => {
-        const errorMessage = error.response?.data?.message || error.message;
-        logger.error('Usable API Response Error', {
-          status: error.response?.status,
-          message: errorMessage,
-          url: error.config?.url,
-        });
-        return Promise.reject(error);
-      }
-    );
+  /**
+   * Get (or create) the client for a workspace
+   *
+   * Recreated when a config reload points the workspace at another API key.
+   */
+  private getClient(workspaceId: string = env.USABLE_WORKSPACE_ID): WorkspaceClient {
+    const apiKeyEnv = getApiKeyEnvForWorkspace(workspaceId);
+    const existing = this.clients.get(workspaceId);
+    if (existing?.apiKeyEnv === apiKeyEnv) {
+      return existing;
+    }
+
+    const client: WorkspaceClient = {
+      apiKeyEnv,
+      http: createHttpClient(process.env[apiKeyEnv] ?? env.USABLE_API_KEY),
+      rateLimiter: new TokenBucket(
+        env.USABLE_API_RATE_LIMIT_BURST,
+        env.USABLE_API_RATE_LIMIT_PER_SECOND
+      ),
+    };
+    this.clients.set(workspaceId, client);
+
+    logger.debug('Created Usable API client for workspace', { workspaceId, apiKeyEnv });
+    return client;
   }
 
   /**
    * Create a new memory fragment in Usable
+   *
+   * Every attempt for the same fragment (including outbox retries) must pass
+   * the same `idempotencyKey`, so a create that timed out after Usable stored
+   * it can be repeated without making a duplicate.
    */
-  async createFragment(request: CreateFragmentRequest): Promise<CreateFragmentResponse | null> {
+  async createFragment(
+    request: CreateFragmentRequest,
+    idempotencyKey: string
+  ): Promise<CreateFragmentResult> {
     try {
       logger.info('Creating Usable fragment', { title: request.title });
 
-      const response = await this.client.post<CreateFragmentResponse>('/memory-fragments', request);
+      // The idempotency key makes repeating the create safe
+      const response = await this.send<CreateFragmentResponse>(
+        request.workspaceId,
+        {
+          method: 'POST',
+          url: '/memory-fragments',
+          data: request,
+          headers: { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey },
+        },
+        { idempotent: true, operation: 'createFragment' }
+      );
 
       logger.info('Successfully created Usable fragment', {
         fragmentId: response.data.fragmentId,
         title: response.data.title,
       });
 
-      return response.data;
+      return { outcome: 'created', fragment: response.data };
     } catch (error) {
       if (axios.isAxiosError(error)) {
         const axiosError = error as AxiosError<UsableError>;
@@ -80,19 +153,22 @@ export class UsableApiService {
           message: axiosError.response?.data?.message || axiosError.message,
           title: request.title,
         });
-      } else {
-        logger.error('Unexpected error creating Usable fragment', error);
+        return { outcome: getFailureOutcome(axiosError) };
       }
-      return null;
+      logger.error('Unexpected error creating Usable fragment', error);
+      return { outcome: 'retryable' };
     }
   }
 
   /**
    * Update an existing memory fragment in Usable
    */
-  async updateFragment(request: UpdateFragmentRequest): Promise<boolean> {
+  async updateFragment(
+    request: UpdateFragmentRequest,
+    workspaceId?: string
+  ): Promise<UpdateFragmentResult> {
     try {
-      logger.info('Updating Usable fragment', { fragmentId: request.fragmentId });
+      logger.info('Updating Usable fragment', { fragmentId: request.fragmentId, workspaceId });
 
       // Build the payload without fragmentId
       const { fragmentId, ...payload } = request;
@@ -104,16 +180,22 @@ export class UsableApiService {
         contentPreview: payload.content?.substring(0, 200),
         hasPatchOps: !!payload.patchOperations,
         patchOpsCount: payload.patchOperations?.length,
-        fullPayload: JSON.stringify(payload, null, 2),
+        tags: payload.tags,
+        status: payload.status,
       });
 
-      await this.client.patch(`/memory-fragments/${fragmentId}`, payload);
+      // Full-field updates are idempotent; patch operations (e.g. inserts) are not
+      await this.send(
+        workspaceId,
+        { method: 'PATCH', url: `/memory-fragments/${fragmentId}`, data: payload },
+        { idempotent: !payload.patchOperations, operation: 'updateFragment' }
+      );
 
       logger.info('Successfully updated Usable fragment', {
         fragmentId: fragmentId,
       });
 
-      return true;
+      return 'updated';
     } catch (error) {
       if (axios.isAxiosError(error)) {
         const axiosError = error as AxiosError<UsableError>;
@@ -123,10 +205,250 @@ export class UsableApiService {
           data: axiosError.response?.data,
           fragmentId: request.fragmentId,
         });
+        return getFailureOutcome(axiosError);
+      }
+      logger.error('Unexpected error updating Usable fragment', error);
+      return 'retryable';
+    }
+  }
+
+  /**
+   * Fetch a single fragment (null if it doesn't exist or can't be fetched)
+   */
+  async getFragment(fragmentId: string, workspaceId?: string): Promise<Fragment | null> {
+    try {
+      const response = await this.send<Fragment>(
+        workspaceId,
+        { method: 'GET', url: `/memory-fragments/${fragmentId}` },
+        { idempotent: true, operation: 'getFragment' }
+      );
+
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const axiosError = error as AxiosError<UsableError>;
+        logger.error('Failed to fetch Usable fragment', {
+          status: axiosError.response?.status,
+          message: axiosError.response?.data?.message || axiosError.message,
+          fragmentId,
+        });
       } else {
-        logger.error('Unexpected error updating Usable fragment', error);
+        logger.error('Unexpected error fetching Usable fragment', error);
       }
-      return false;
+      return null;
+    }
+  }
+
+  /**
+   * List fragments in a workspace updated since a point in time
+   */
+  async listFragmentsUpdatedSince(
+    request: ListFragmentsRequest
+  ): Promise<ListFragmentsResponse | null> {
+    try {
+      const { workspaceId, ...params } = request;
+      const response = await this.send<ListFragmentsResponse>(
+        workspaceId,
+        { method: 'GET', url: '/memory-fragments', params: { workspaceId, ...params } },
+        { idempotent: true, operation: 'listFragmentsUpdatedSince' }
+      );
+
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const axiosError = error as AxiosError<UsableError>;
+        logger.error('Failed to list updated Usable fragments', {
+          status: axiosError.response?.status,
+          message: axiosError.response?.data?.message || axiosError.message,
+          workspaceId: request.workspaceId,
+          updatedSince: request.updatedSince,
+        });
+      } else {
+        logger.error('Unexpected error listing Usable fragments', error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Search fragments in a workspace
+   */
+  async searchFragments(request: SearchFragmentsRequest): Promise<SearchFragmentsResponse | null> {
+    try {
+      logger.info('Searching Usable fragments', {
+        workspaceId: request.workspaceId,
+        query: request.query,
+        offset: request.offset,
+      });
+
+      // Searches don't change anything, so they're safe to retry
+      const response = await this.send<SearchFragmentsResponse>(
+        request.workspaceId,
+        { method: 'POST', url: '/memory-fragments/search', data: request },
+        { idempotent: true, operation: 'searchFragments' }
+      );
+
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const axiosError = error as AxiosError<UsableError>;
+        logger.error('Failed to search Usable fragments', {
+          status: axiosError.response?.status,
+          message: axiosError.response?.data?.message || axiosError.message,
+          query: request.query,
+        });
+      } else {
+        logger.error('Unexpected error searching Usable fragments', error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Check that the API answers for a workspace, with a single unretried request
+   *
+   * Lists at most one fragment, so it also exercises the workspace's API key
+   * (a 401/403 is reachable but reported with its status).
+   */
+  async probe(workspaceId: string = env.USABLE_WORKSPACE_ID): Promise<UsableProbeResult> {
+    const { http } = this.getClient(workspaceId);
+    const config: AxiosRequestConfig = {
+      method: 'GET',
+      url: '/memory-fragments',
+      params: { workspaceId, limit: 1 },
+      timeout: PROBE_TIMEOUT_MS,
+    };
+    const startedAt = performance.now();
+
+    try {
+      const response = await http.request(config);
+      observeLatency(config, startedAt, String(response.status));
+      return {
+        workspaceId,
+        reachable: true,
+        status: response.status,
+        latencyMs: Math.round(performance.now() - startedAt),
+      };
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? (error.response?.status ?? null) : null;
+      observeLatency(config, startedAt, status ? String(status) : 'network_error');
+      return {
+        workspaceId,
+        reachable: status !== null && status < 500,
+        status,
+        latencyMs: Math.round(performance.now() - startedAt),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Send a request with rate limiting and retries
+   *
+   * Idempotent requests are retried on network errors, 429 and 502/503/504.
+   * Non-idempotent requests are only retried when the server provably didn't
+   * act on them (429, 503, connection never established). Backoff is
+   * exponential with jitter; a 429's Retry-After takes precedence and pauses
+   * the whole client.
+   */
+  private async send<T>(
+    workspaceId: string | undefined,
+    config: AxiosRequestConfig,
+    options: { idempotent: boolean; operation: string }
+  ): Promise<AxiosResponse<T>> {
+    const { http, rateLimiter } = this.getClient(workspaceId);
+    const stats: RetryStats = { attempts: 0, rateLimited: 0, waitedMs: 0, durationMs: 0 };
+    const startedAt = Date.now();
+
+    for (;;) {
+      stats.waitedMs += await rateLimiter.take();
+      stats.attempts++;
+
+      const attemptStartedAt = performance.now();
+      try {
+        const response = await http.request<T>(config);
+        observeLatency(config, attemptStartedAt, String(response.status));
+        stats.durationMs = Date.now() - startedAt;
+        this.logRetryStats(options.operation, stats, true);
+        return response;
+      } catch (error) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        observeLatency(config, attemptStartedAt, status ? String(status) : 'network_error');
+        const delay = this.getRetryDelay(error, options.idempotent, stats, rateLimiter);
+
+        if (delay === null) {
+          stats.durationMs = Date.now() - startedAt;
+          this.logRetryStats(options.operation, stats, false);
+          throw error;
+        }
+
+        logger.warn('Usable API call failed, retrying...', {
+          operation: options.operation,
+          attempt: stats.attempts,
+          delayMs: delay,
+          status: axios.isAxiosError(error) ? error.response?.status : undefined,
+        });
+
+        stats.waitedMs += delay;
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Decide whether (and how long) to wait before retrying, or null to give up
+   */
+  private getRetryDelay(
+    error: unknown,
+    idempotent: boolean,
+    stats: RetryStats,
+    rateLimiter: TokenBucket
+  ): number | null {
+    if (!axios.isAxiosError(error) || stats.attempts > env.USABLE_API_MAX_RETRIES) {
+      return null;
+    }
+
+    const status = error.response?.status;
+    let retryable: boolean;
+    if (status === undefined) {
+      // No response: network error or timeout
+      retryable = idempotent || NOT_SENT_ERROR_CODES.has(error.code ?? '');
+    } else {
+      retryable = idempotent ? RETRYABLE_STATUSES.has(status) : NOT_PROCESSED_STATUSES.has(status);
+    }
+
+    if (!retryable) {
+      return null;
+    }
+
+    const exponential = Math.min(
+      env.USABLE_API_RETRY_BASE_DELAY_MS * 2 ** (stats.attempts - 1),
+      env.USABLE_API_RETRY_MAX_DELAY_MS
+    );
+    // Equal jitter: half fixed, half random, so concurrent retries spread out
+    const backoff = exponential / 2 + Math.random() * (exponential / 2);
+
+    if (status === 429) {
+      stats.rateLimited++;
+      const retryAfter = parseRetryAfter(error.response?.headers['retry-after']);
+      if (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS) {
+        return null;
+      }
+      const delay = Math.max(retryAfter ?? 0, backoff);
+      rateLimiter.pause(delay);
+      return Math.round(delay);
+    }
+
+    return Math.round(backoff);
+  }
+
+  private logRetryStats(operation: string, stats: RetryStats, success: boolean): void {
+    if (!success) {
+      logger.warn('Usable API call failed', { operation, ...stats });
+    } else if (stats.attempts > 1) {
+      logger.info('Usable API call succeeded after retries', { operation, ...stats });
+    } else {
+      logger.debug('Usable API call stats', { operation, ...stats });
     }
   }
 
@@ -174,6 +496,7 @@ export class UsableApiService {
       channelName?: string;
       guildName?: string;
       timestamp?: Date;
+      statuses?: string[];
     }
   ): string {
     let content = '## Discord Thread Conversation\n\n';
@@ -187,12 +510,43 @@ export class UsableApiService {
     if (metadata.threadName) {
       content += `**Thread:** ${metadata.threadName}\n`;
     }
+    if (metadata.statuses && metadata.statuses.length > 0) {
+      content += `${this.formatStatusLine(metadata.statuses)}\n`;
+    }
     content += `**Last Updated:** ${metadata.timestamp?.toISOString() || new Date().toISOString()}\n\n`;
     content += `---\n\n${conversationContent}`;
 
     return content;
   }
 
+  /**
+   * Format the thread lifecycle line (e.g. "**Status:** archived, locked")
+   */
+  formatStatusLine(statuses: string[]): string {
+    return `**Status:** ${statuses.join(', ')}`;
+  }
+
+  /**
+   * Set the status line in existing fragment content
+   *
+   * Replaces the current status line, or adds one at the end of the metadata
+   * header (or at the top, if the content has no header).
+   */
+  applyStatusLine(content: string, statuses: string[]): string {
+    const statusLine = this.formatStatusLine(statuses);
+
+    if (/^\*\*Status:\*\* .*$/m.test(content)) {
+      return content.replace(/^\*\*Status:\*\* .*$/m, statusLine);
+    }
+
+    const separatorIndex = content.indexOf('\n\n---\n\n');
+    if (separatorIndex >= 0) {
+      return `${content.slice(0, separatorIndex)}\n${statusLine}${content.slice(separatorIndex)}`;
+    }
+
+    return `${statusLine}\n\n${content}`;
+  }
+
   /**
    * Generate tags from Discord context
    */
@@ -214,4 +568,96 @@ export class UsableApiService {
   }
 }
 
+/**
+ * Create an axios instance for the Usable API with request/response logging
+ */
+function createHttpClient(apiKey: string): AxiosInstance {
+  const client = axios.create({
+    baseURL: env.USABLE_API_URL,
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    timeout: 30000, // 30 seconds
+  });
+
+  // Request interceptor for logging and correlation
+  client.interceptors.request.use(
+    (config) => {
+      const correlationId = getCorrelationId();
+      if (correlationId) {
+        config.headers.set(CORRELATION_ID_HEADER, correlationId);
+      }
+      logger.debug('Usable API Request', {
+        method: config.method?.toUpperCase(),
+        url: config.url,
+      });
+      return config;
+    },
+    (error) => {
+      logger.error('Usable API Request Error', error);
+      return Promise.reject(error);
+    }
+  );
+
+  // Response interceptor for logging
+  client.interceptors.response.use(
+    (response) => {
+      logger.debug('Usable API Response', {
+        status: response.status,
+        url: response.config.url,
+      });
+      return response;
+    },
+    (error: AxiosError<UsableError>) => {
+      const errorMessage = error.response?.data?.message || error.message;
+      logger.error('Usable API Response Error', {
+        status: error.response?.status,
+        message: errorMessage,
+        url: error.config?.url,
+      });
+      return Promise.reject(error);
+    }
+  );
+
+  return client;
+}
+
+/**
+ * Record one attempt's latency, with IDs stripped from the route
+ */
+function observeLatency(config: AxiosRequestConfig, startedAt: number, status: string): void {
+  usableApiRequestDuration.observe((performance.now() - startedAt) / 1000, {
+    method: (config.method ?? 'GET').toUpperCase(),
+    route: (config.url ?? '').replace(/\/[0-9a-f-]{8,}(?=\/|$)/gi, '/:id'),
+    status,
+  });
+}
+
+/**
+ * Whether a failed write is worth retrying later: network errors, 429 and
+ * 5xx are; other 4xx mean Usable rejected the request for good
+ */
+function getFailureOutcome(error: AxiosError): 'retryable' | 'rejected' {
+  const status = error.response?.status;
+  return status !== undefined && status < 500 && status !== 429 ? 'rejected' : 'retryable';
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
 export const usableApiService = new UsableApiService();
@@ -26,6 +26,61 @@ export interface CreateFragmentResponse {
   status: string;
 }
 
+export interface Fragment {
+  fragmentId: string;
+  title: string;
+  content?: string;
+  summary?: string;
+  fragmentType?: string;
+  fragmentTypeId?: string;
+  workspaceId: string;
+  tags: string[];
+  status?: FragmentStatus;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface SearchFragmentsRequest {
+  workspaceId: string;
+  query: string;
+  fragmentTypeId?: string;
+  tags?: string[];
+  limit: number;
+  offset: number;
+}
+
+export interface ListFragmentsRequest {
+  workspaceId: string;
+  /** ISO timestamp - only fragments updated at or after it */
+  updatedSince: string;
+  /** Oldest change first, so a page can be resumed from its last `updatedAt` */
+  sortBy?: 'updatedAt';
+  sortOrder?: 'asc' | 'desc';
+  limit: number;
+  offset: number;
+}
+
+export interface ListFragmentsResponse {
+  fragments: Fragment[];
+  total: number;
+}
+
+export interface FragmentSummary {
+  fragmentId: string;
+  title: string;
+  summary?: string;
+  fragmentType?: string;
+  tags: string[];
+  updatedAt?: string;
+  /** Search relevance, 0-1 */
+  score?: number;
+}
+
+export interface SearchFragmentsResponse {
+  fragments: FragmentSummary[];
+  total: number;
+}
+
 export interface UpdateFragmentRequest {
   fragmentId: string;
   title?: string;
@@ -33,9 +88,12 @@ export interface UpdateFragmentRequest {
   summary?: string;
   tags?: string[];
   fragmentTypeId?: string;
+  status?: FragmentStatus;
   patchOperations?: PatchOperation[];
 }
 
+export type FragmentStatus = 'active' | 'archived';
+
 export type PatchOperation =
   | {
       type: 'replace';
@@ -0,0 +1,144 @@
+/**
+ * 🛡️ Audit Messages
+ *
+ * Embeds posted in a guild's audit channel (see services/audit-log.service.ts):
+ * one per privileged slash command, with who ran it, its options and what it
+ * did, and one per fragment that couldn't be created.
+ */
+
+import {
+  type ChatInputCommandInteraction,
+  type CommandInteractionOption,
+  EmbedBuilder,
+  type ThreadChannel,
+} from 'discord.js';
+
+/** What a privileged command did, as shown in the audit channel */
+export interface CommandAuditResult {
+  outcome: 'success' | 'warning' | 'failed';
+  summary: string;
+  /** Result counts (e.g. from a SyncResult), shown as inline fields */
+  counts?: Record<string, number>;
+}
+
+/** A fragment that couldn't be created for a thread */
+export interface FragmentFailureAudit {
+  /** Queued for retry, or dropped after the last outbox attempt */
+  stage: 'queued' | 'gave_up' | 'rejected';
+  /** Where the create was attempted (e.g. "new post", "/sync-forum") */
+  source: string;
+  attempts?: number;
+}
+
+const OUTCOME_COLORS: Record<CommandAuditResult['outcome'], number> = {
+  success: 0x57f287,
+  warning: 0xfee75c,
+  failed: 0xed4245,
+};
+
+const OUTCOME_EMOJIS: Record<CommandAuditResult['outcome'], string> = {
+  success: '✅',
+  warning: '⚠️',
+  failed: '❌',
+};
+
+const FAILURE_COLOR = 0xed4245;
+
+/** Discord's limit for an embed field value */
+const MAX_FIELD_LENGTH = 1024;
+
+/**
+ * Build the audit embed for a slash command
+ */
+export function buildCommandAuditEmbed(
+  interaction: ChatInputCommandInteraction,
+  result: CommandAuditResult
+): EmbedBuilder {
+  const subcommand = interaction.options.getSubcommand(false);
+  const command = `/${interaction.commandName}${subcommand ? ` ${subcommand}` : ''}`;
+
+  const embed = new EmbedBuilder()
+    .setColor(OUTCOME_COLORS[result.outcome])
+    .setTitle(`${OUTCOME_EMOJIS[result.outcome]} ${command}`)
+    .setDescription(result.summary)
+    .addFields(
+      {
+        name: '👤 Moderator',
+        value: `<@${interaction.user.id}> (${interaction.user.username})`,
+        inline: true,
+      },
+      {
+        name: '📍 Channel',
+        value: interaction.channelId ? `<#${interaction.channelId}>` : 'unknown',
+        inline: true,
+      },
+      { name: '⚙️ Options', value: formatOptions(interaction.options.data) }
+    )
+    .setTimestamp();
+
+  for (const [name, count] of Object.entries(result.counts ?? {})) {
+    embed.addFields({ name, value: String(count), inline: true });
+  }
+
+  return embed;
+}
+
+/**
+ * Build the audit embed for a fragment that couldn't be created
+ */
+export function buildFragmentFailureAuditEmbed(
+  thread: ThreadChannel,
+  failure: FragmentFailureAudit
+): EmbedBuilder {
+  const description = {
+    queued: 'Creating the fragment failed; it is queued and will be retried automatically.',
+    gave_up: `Creating the fragment failed ${failure.attempts ?? 'several'} times; the outbox gave up. Run \`/sync-forum\` in the thread to try again.`,
+    rejected:
+      'Usable rejected the fragment, so it will not be retried. Fix the cause and run `/sync-forum` in the thread.',
+  }[failure.stage];
+  const title = {
+    queued: '⚠️ Fragment creation failed',
+    gave_up: '❌ Fragment creation gave up',
+    rejected: '❌ Fragment creation rejected',
+  }[failure.stage];
+
+  return new EmbedBuilder()
+    .setColor(FAILURE_COLOR)
+    .setTitle(title)
+    .setDescription(description)
+    .addFields(
+      { name: '🧵 Thread', value: `<#${thread.id}> (${thread.name})`, inline: true },
+      {
+        name: '📂 Forum',
+        value: thread.parentId ? `<#${thread.parentId}>` : 'unknown',
+        inline: true,
+      },
+      { name: '🔁 Source', value: failure.source, inline: true }
+    )
+    .setTimestamp();
+}
+
+/**
+ * Render command options (and subcommand options) as `name: value` lines
+ */
+function formatOptions(options: readonly CommandInteractionOption[]): string {
+  const lines = options.flatMap((option) => {
+    if (option.options) {
+      // Subcommand - its name is already in the title
+      return option.options.map(formatOption);
+    }
+    return [formatOption(option)];
+  });
+
+  if (lines.length === 0) {
+    return '_none_';
+  }
+
+  const text = lines.join('\n');
+  return text.length > MAX_FIELD_LENGTH ? `${text.slice(0, MAX_FIELD_LENGTH - 1)}…` : text;
+}
+
+function formatOption(option: CommandInteractionOption): string {
+  const value = option.channel ? `<#${option.channel.id}>` : `\`${String(option.value)}\``;
+  return `${option.name}: ${value}`;
+}
@@ -0,0 +1,157 @@
+/**
+ * ✅ Confirmation Messages
+ *
+ * What the bot posts in a thread once its fragment exists (or failed to).
+ *
+ * The success message is an embed with the fragment's title, type and tags,
+ * plus an "Open in Usable" link button. It doubles as the fallback fragment
+ * lookup: the embed footer must keep the `Fragment ID: uuid` text (see
+ * utils/fragment-lookup.ts, which also still reads the older plain-text
+ * confirmations).
+ *
+ * `/link-fragment` posts the same kind of message for an existing fragment,
+ * and `/unlink-fragment` a notice whose footer starts with
+ * UNLINKED_FOOTER_PREFIX, which the fallback lookup treats as "no fragment".
+ */
+
+import {
+  ActionRowBuilder,
+  type BaseMessageOptions,
+  ButtonBuilder,
+  ButtonStyle,
+  EmbedBuilder,
+} from 'discord.js';
+import { env } from '../config/env.js';
+import { renderTemplate } from '../config/forums.js';
+import type { CreateFragmentRequest, CreateFragmentResponse, Fragment } from '../types/usable.js';
+
+/** Footer of the `/unlink-fragment` notice */
+export const UNLINKED_FOOTER_PREFIX = 'Unlinked from fragment';
+
+const CONFIRMATION_COLOR = 0x57f287;
+const UNLINKED_COLOR = 0x99aab5;
+const DEFAULT_FOOTER =
+  'Your post has been automatically logged. Updates to this thread will be tracked.';
+
+/** Discord's limit for an embed field value */
+const MAX_FIELD_LENGTH = 1024;
+
+/**
+ * Link to a fragment in the Usable web app
+ */
+export function getFragmentUrl(workspaceId: string, fragmentId: string): string {
+  return renderTemplate(env.USABLE_FRAGMENT_URL_TEMPLATE, { workspaceId, fragmentId });
+}
+
+/**
+ * Build the "issue registered" message
+ */
+export function buildConfirmationMessage(
+  request: CreateFragmentRequest,
+  fragment: CreateFragmentResponse,
+  options: { label?: string; footer?: string } = {}
+): BaseMessageOptions {
+  const { label, footer = DEFAULT_FOOTER } = options;
+  const url = getFragmentUrl(request.workspaceId, fragment.fragmentId);
+  const tags = fragment.tags?.length ? fragment.tags : (request.tags ?? []);
+
+  const embed = new EmbedBuilder()
+    .setColor(CONFIRMATION_COLOR)
+    .setTitle(`✅ Issue registered in Usable${label ? ` (${label})` : ''}`)
+    .setURL(url)
+    .setDescription(`_${footer}_`)
+    .addFields(
+      { name: '📌 Title', value: request.title },
+      { name: '🗂️ Fragment Type', value: fragment.fragmentType || request.fragmentTypeId },
+      { name: '🏷️ Tags', value: formatTagList(tags) }
+    )
+    .setFooter({ text: `Fragment ID: ${fragment.fragmentId}` });
+
+  return { embeds: [embed], components: [buildOpenButtonRow(url)] };
+}
+
+/**
+ * Build the "thread linked" message posted by `/link-fragment`
+ */
+export function buildLinkedMessage(
+  fragment: Fragment,
+  workspaceId: string,
+  linkedBy: string
+): BaseMessageOptions {
+  const url = getFragmentUrl(workspaceId, fragment.fragmentId);
+
+  const embed = new EmbedBuilder()
+    .setColor(CONFIRMATION_COLOR)
+    .setTitle('🔗 Thread linked to Usable fragment')
+    .setURL(url)
+    .setDescription(`_Linked by <@${linkedBy}>. Updates to this thread will be tracked._`)
+    .addFields(
+      { name: '📌 Title', value: fragment.title || '_untitled_' },
+      {
+        name: '🗂️ Fragment Type',
+        value: fragment.fragmentType || fragment.fragmentTypeId || '_unknown_',
+      },
+      { name: '🏷️ Tags', value: formatTagList(fragment.tags ?? []) }
+    )
+    .setFooter({ text: `Fragment ID: ${fragment.fragmentId}` });
+
+  return { embeds: [embed], components: [buildOpenButtonRow(url)] };
+}
+
+/**
+ * Build the notice posted by `/unlink-fragment`
+ */
+export function buildUnlinkedMessage(fragmentId: string, unlinkedBy: string): BaseMessageOptions {
+  const embed = new EmbedBuilder()
+    .setColor(UNLINKED_COLOR)
+    .setTitle('🔌 Thread unlinked from Usable')
+    .setDescription(
+      `_Unlinked by <@${unlinkedBy}>. Changes to this thread are no longer synced; the fragment is kept._`
+    )
+    .setFooter({ text: `${UNLINKED_FOOTER_PREFIX} ${fragmentId}` });
+
+  return { embeds: [embed], components: [] };
+}
+
+/**
+ * Format the "failed to register" message
+ *
+ * @param retrying - Whether the create was queued for an automatic retry
+ */
+export function formatFailureMessage(retrying = true): string {
+  return [
+    '❌ **Failed to register issue in Usable**',
+    retrying
+      ? '_There was an error creating the fragment. It will be retried automatically._'
+      : '_Usable rejected the fragment, so it will not be retried. A moderator can run `/sync-forum` once the problem is fixed._',
+  ].join('\n');
+}
+
+function buildOpenButtonRow(url: string): ActionRowBuilder<ButtonBuilder> {
+  const button = new ButtonBuilder()
+    .setStyle(ButtonStyle.Link)
+    .setLabel('Open in Usable')
+    .setURL(url);
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(button);
+}
+
+/**
+ * Render tags as inline code, summarizing the ones that don't fit in a field
+ */
+function formatTagList(tags: string[]): string {
+  if (tags.length === 0) {
+    return '_none_';
+  }
+
+  let value = '';
+  for (const [index, tag] of tags.entries()) {
+    const next = value ? `${value} \`${tag}\`` : `\`${tag}\``;
+    // Leave room for the " +N more" suffix
+    if (next.length > MAX_FIELD_LENGTH - 16) {
+      return `${value} +${tags.length - index} more`;
+    }
+    value = next;
+  }
+
+  return value;
+}
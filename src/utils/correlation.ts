@@ -0,0 +1,30 @@
+/**
+ * 🧵 Correlation IDs
+ *
+ * Every Discord event, interaction and background job runs with its own
+ * correlation ID, carried through async calls by AsyncLocalStorage. The
+ * logger stamps it on every line, and Usable API requests send it as a
+ * header, so one event's logs (including retries) can be followed end to end.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+
+/** Header carrying the correlation ID on Usable API requests */
+export const CORRELATION_ID_HEADER = 'X-Correlation-ID';
+
+const storage = new AsyncLocalStorage<string>();
+
+/**
+ * Run a function with a (new, unless given) correlation ID
+ */
+export function withCorrelationId<T>(fn: () => T, correlationId: string = randomUUID()): T {
+  return storage.run(correlationId, fn);
+}
+
+/**
+ * The correlation ID of the current event, if any
+ */
+export function getCorrelationId(): string | undefined {
+  return storage.getStore();
+}
@@ -9,6 +9,7 @@
  */
 
 import { logger } from './logger.js';
+import { discordRetriesTotal } from './metrics.js';
 
 export interface RetryOptions {
   /** Maximum number of retry attempts (default: 3) */
@@ -53,6 +54,7 @@ export async function retryDiscordApi<T>(
 
       // Log success if we needed retries
       if (attempt > 0) {
+        discordRetriesTotal.inc({ outcome: 'recovered' });
         logger.info('Discord API call succeeded after retry', {
           context,
           attempt: attempt + 1,
@@ -74,6 +76,7 @@ export async function retryDiscordApi<T>(
 
       if (shouldRetry && !isLastAttempt) {
         const delay = delays[attempt] || delays[delays.length - 1];
+        discordRetriesTotal.inc({ outcome: 'retry' });
         logger.warn('Discord API call failed, retrying...', {
           context,
           attempt: attempt + 1,
@@ -87,6 +90,10 @@ export async function retryDiscordApi<T>(
       }
 
       // Give up - either last attempt or non-retryable error
+      // (first-attempt failures weren't retried, so they don't count here)
+      if (attempt > 0) {
+        discordRetriesTotal.inc({ outcome: 'failed' });
+      }
       logger.error('Discord API call failed after retries', {
         error,
         context,
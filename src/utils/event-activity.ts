@@ -0,0 +1,25 @@
+/**
+ * 📡 Event Activity
+ *
+ * Remembers when each Discord event was last received, so /health/details
+ * can show whether the gateway is actually delivering anything (a connected
+ * but silent gateway looks healthy otherwise).
+ */
+
+const lastReceived = new Map<string, Date>();
+
+/**
+ * Record that an event was just received
+ */
+export function recordEventReceived(event: string): void {
+  lastReceived.set(event, new Date());
+}
+
+/**
+ * Last time each event was received (ISO timestamps, by event name)
+ */
+export function getLastEventTimes(): Record<string, string> {
+  return Object.fromEntries(
+    [...lastReceived.entries()].map(([event, at]) => [event, at.toISOString()])
+  );
+}
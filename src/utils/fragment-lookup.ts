@@ -0,0 +1,111 @@
+/**
+ * 🔎 Fragment Lookup
+ *
+ * Resolves the Usable fragment linked to a Discord thread.
+ *
+ * The thread index is checked first. When it misses (threads created before
+ * the index existed, or a lost data volume), we fall back to scanning the
+ * thread for the bot's confirmation message and backfill the index with
+ * whatever we find, so the next lookup is local.
+ *
+ * Confirmations carry the ID in the embed footer; older ones have it in
+ * the message text. Both are recognized.
+ *
+ * Threads detached with `/unlink-fragment` have no fragment: the index entry
+ * says so, and the scan stops at the bot's "unlinked" message.
+ */
+
+import type { Message, ThreadChannel } from 'discord.js';
+import { getWorkspaceForForum } from '../config/forums.js';
+import { threadIndexService } from '../services/thread-index.service.js';
+import { UNLINKED_FOOTER_PREFIX } from './confirmation-message.js';
+import { logger } from './logger.js';
+
+/** Legacy plain-text confirmation: Fragment ID: `uuid` */
+const CONTENT_FRAGMENT_ID_PATTERN = /Fragment ID: `([a-f0-9-]+)`/i;
+
+/** Embed confirmation footer: Fragment ID: uuid */
+const FOOTER_FRAGMENT_ID_PATTERN = /Fragment ID: ([a-f0-9-]+)/i;
+
+/**
+ * Find the fragment ID for a thread (index first, message scan as fallback)
+ */
+export async function findFragmentIdInThread(thread: ThreadChannel): Promise<string | null> {
+  const entry = threadIndexService.get(thread.id);
+  if (entry) {
+    return entry.syncStatus === 'detached' ? null : entry.fragmentId;
+  }
+
+  try {
+    return await scanThreadForFragmentId(thread);
+  } catch (error) {
+    logger.error('Error finding fragment ID in thread', { error, threadId: thread.id });
+    return null;
+  }
+}
+
+/**
+ * Scan the thread's recent messages for the bot's confirmation message
+ *
+ * Messages are read newest first, so a later link or unlink wins over an
+ * earlier confirmation. Backfills the thread index on a hit. Discord errors
+ * are propagated so callers can decide how to treat an unreadable thread.
+ */
+export async function scanThreadForFragmentId(
+  thread: ThreadChannel,
+  limit = 50
+): Promise<string | null> {
+  const botUserId = thread.client.user?.id;
+  const messages = await thread.messages.fetch({ limit });
+
+  let fragmentId: string | null = null;
+  for (const message of messages.filter((msg) => msg.author.id === botUserId).values()) {
+    if (isUnlinkedMessage(message)) {
+      return null;
+    }
+    fragmentId = extractFragmentId(message);
+    if (fragmentId) {
+      break;
+    }
+  }
+
+  if (!fragmentId) {
+    return null;
+  }
+
+  threadIndexService.upsert({
+    threadId: thread.id,
+    fragmentId,
+    forumId: thread.parentId ?? '',
+    // The confirmation doesn't record the workspace; assume the forum's current one
+    workspaceId: getWorkspaceForForum(thread.parentId ?? ''),
+  });
+
+  logger.debug('Backfilled thread index from message scan', {
+    threadId: thread.id,
+    fragmentId,
+  });
+
+  return fragmentId;
+}
+
+/**
+ * Read the fragment ID from a bot confirmation message (embed or legacy text)
+ */
+export function extractFragmentId(message: Message): string | null {
+  for (const embed of message.embeds) {
+    const match = embed.footer?.text.match(FOOTER_FRAGMENT_ID_PATTERN);
+    if (match) {
+      return match[1];
+    }
+  }
+
+  return message.content.match(CONTENT_FRAGMENT_ID_PATTERN)?.[1] ?? null;
+}
+
+/**
+ * Whether a bot message is the notice posted by `/unlink-fragment`
+ */
+function isUnlinkedMessage(message: Message): boolean {
+  return message.embeds.some((embed) => embed.footer?.text.startsWith(UNLINKED_FOOTER_PREFIX));
+}
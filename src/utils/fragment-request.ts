@@ -0,0 +1,70 @@
+/**
+ * 📦 Fragment Request Builder
+ *
+ * Builds the Usable create request for a forum thread from its starter
+ * message and the forum's configuration. Thread creation and retroactive
+ * sync both use it, so a post produces the same fragment either way.
+ */
+
+import type { Message, ThreadChannel } from 'discord.js';
+import { type ForumConfig, renderTemplate } from '../config/forums.js';
+import type { RemoteFragmentState } from '../services/thread-index.service.js';
+import { usableApiService } from '../services/usable-api.service.js';
+import type { CreateFragmentRequest, CreateFragmentResponse } from '../types/usable.js';
+import { renderMessageContent } from './message-renderer.js';
+import { buildThreadTags } from './thread-tags.js';
+
+/**
+ * Values available to summary and reply templates
+ */
+export function getTemplateValues(thread: ThreadChannel, author: string): Record<string, string> {
+  return {
+    author,
+    title: thread.name,
+    forum: thread.parent?.name ?? '',
+    server: thread.guild.name,
+  };
+}
+
+/**
+ * Build the create request for a thread's fragment
+ */
+export async function buildCreateFragmentRequest(
+  thread: ThreadChannel,
+  starterMessage: Message,
+  forum: ForumConfig
+): Promise<CreateFragmentRequest> {
+  const author = starterMessage.author.username;
+
+  return {
+    title: thread.name,
+    content: usableApiService.formatThreadContent(
+      author,
+      await renderMessageContent(starterMessage),
+      {
+        threadName: thread.name,
+        channelName: thread.parent?.name,
+        guildName: thread.guild.name,
+        timestamp: starterMessage.createdAt,
+      }
+    ),
+    workspaceId: forum.workspaceId,
+    fragmentTypeId: forum.fragmentTypeId,
+    summary: renderTemplate(forum.summaryTemplate, getTemplateValues(thread, author)),
+    tags: buildThreadTags(thread),
+    repository: forum.repository,
+  };
+}
+
+/**
+ * The tags and status a fragment was created with (recorded in the thread index)
+ */
+export function getCreatedFragmentState(
+  request: CreateFragmentRequest,
+  fragment: CreateFragmentResponse
+): RemoteFragmentState {
+  return {
+    tags: fragment.tags ?? request.tags ?? [],
+    status: fragment.status === 'archived' ? 'archived' : 'active',
+  };
+}
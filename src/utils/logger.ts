@@ -1,7 +1,26 @@
+/**
+ * 📋 Logger
+ *
+ * Leveled logging in two formats (LOG_FORMAT):
+ * - text → `[timestamp] LEVEL message {json}` for humans
+ * - json → one JSON object per line for log aggregators
+ *
+ * Every line carries the current correlation ID (see utils/correlation.ts)
+ * and the child logger's bound context. Metadata is sanitized before it's
+ * written: credentials are redacted, long strings and arrays are truncated,
+ * and errors are reduced to their useful fields (axios errors would
+ * otherwise include the request config and its Authorization header).
+ */
+
 import { env } from '../config/env.js';
+import { getCorrelationId } from './correlation.js';
 
 type LogLevel = 'error' | 'warn' | 'info' | 'debug';
 
+type LogFormat = 'text' | 'json';
+
+type LogContext = Record<string, unknown>;
+
 const LOG_LEVELS: Record<LogLevel, number> = {
   error: 0,
   warn: 1,
@@ -9,11 +28,32 @@ const LOG_LEVELS: Record<LogLevel, number> = {
   debug: 3,
 };
 
+/** Keys whose values are never written */
+const SENSITIVE_KEY_PATTERN =
+  /^(authorization|cookie|set-cookie|x-api-key|api[-_]?key|token|secret|password)$/i;
+/** Longer strings are cut (e.g. fragment content in update payloads) */
+const MAX_STRING_LENGTH = 2000;
+/** Longer arrays keep only their first items */
+const MAX_ARRAY_ITEMS = 50;
+/** Deeper values are elided */
+const MAX_DEPTH = 6;
+
 class Logger {
   private level: number;
 
-  constructor(level: LogLevel = 'info') {
-    this.level = LOG_LEVELS[level];
+  constructor(
+    private readonly levelName: LogLevel = 'info',
+    private readonly format: LogFormat = 'text',
+    private readonly bindings: LogContext = {}
+  ) {
+    this.level = LOG_LEVELS[levelName];
+  }
+
+  /**
+   * Create a logger that adds the given context (e.g. threadId, forumId) to every line
+   */
+  child(bindings: LogContext): Logger {
+    return new Logger(this.levelName, this.format, { ...this.bindings, ...bindings });
   }
 
   private shouldLog(level: LogLevel): boolean {
@@ -22,11 +62,39 @@ class Logger {
 
   private formatMessage(level: LogLevel, message: string, meta?: unknown): string {
     const timestamp = new Date().toISOString();
+    const context = this.buildContext(meta);
+
+    if (this.format === 'json') {
+      return JSON.stringify({ timestamp, level, message, ...context });
+    }
+
     const levelStr = level.toUpperCase().padEnd(5);
-    const metaStr = meta ? ` ${JSON.stringify(meta)}` : '';
+    const metaStr = Object.keys(context).length > 0 ? ` ${JSON.stringify(context)}` : '';
     return `[${timestamp}] ${levelStr} ${message}${metaStr}`;
   }
 
+  /**
+   * Merge correlation ID, bound context and (sanitized) metadata
+   */
+  private buildContext(meta: unknown): LogContext {
+    const correlationId = getCorrelationId();
+    const context: LogContext = {
+      ...(correlationId ? { correlationId } : {}),
+      ...(sanitize(this.bindings) as LogContext),
+    };
+
+    if (meta === undefined || meta === null) {
+      return context;
+    }
+
+    const sanitized = sanitize(meta);
+    if (isPlainObject(meta) && isPlainObject(sanitized)) {
+      return { ...context, ...sanitized };
+    }
+    // Errors and primitives logged directly
+    return { ...context, [meta instanceof Error ? 'error' : 'meta']: sanitized };
+  }
+
   error(message: string, meta?: unknown): void {
     if (this.shouldLog('error')) {
       console.error(this.formatMessage('error', message, meta));
@@ -52,4 +120,100 @@ class Logger {
   }
 }
 
-export const logger = new Logger(env.LOG_LEVEL);
+/**
+ * Make a value safe and reasonably small to log
+ */
+function sanitize(value: unknown, depth = 0, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}… [${value.length - MAX_STRING_LENGTH} more chars]`
+      : value;
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  if (depth >= MAX_DEPTH) {
+    return Array.isArray(value) ? '[Array]' : '[Object]';
+  }
+
+  // Only ancestors count as circular; the same object may appear twice side by side
+  seen.add(value);
+  try {
+    return sanitizeObject(value, depth, seen);
+  } finally {
+    seen.delete(value);
+  }
+}
+
+function sanitizeObject(value: object, depth: number, seen: WeakSet<object>): unknown {
+  if (value instanceof Error) {
+    return sanitizeError(value, depth, seen);
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map((item) => sanitize(item, depth + 1, seen));
+    if (value.length > MAX_ARRAY_ITEMS) {
+      items.push(`… [${value.length - MAX_ARRAY_ITEMS} more items]`);
+    }
+    return items;
+  }
+
+  // Discord.js structures, Dates, etc. know how to serialize themselves
+  if (!isPlainObject(value) && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return sanitize((value as { toJSON: () => unknown }).toJSON(), depth, seen);
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [
+      key,
+      SENSITIVE_KEY_PATTERN.test(key) ? '[REDACTED]' : sanitize(entry, depth + 1, seen),
+    ])
+  );
+}
+
+/**
+ * Keep the useful parts of an error (axios errors: no config, headers or body)
+ */
+function sanitizeError(error: Error, depth: number, seen: WeakSet<object>): LogContext {
+  if ((error as { isAxiosError?: boolean }).isAxiosError) {
+    const axiosError = error as Error & {
+      code?: string;
+      config?: { method?: string; url?: string };
+      response?: { status?: number; data?: { message?: string } };
+    };
+    return {
+      name: error.name,
+      message: error.message,
+      code: axiosError.code,
+      status: axiosError.response?.status,
+      method: axiosError.config?.method?.toUpperCase(),
+      url: axiosError.config?.url,
+      responseMessage: sanitize(axiosError.response?.data?.message, depth + 1, seen),
+    };
+  }
+
+  return {
+    name: error.name,
+    message: sanitize(error.message, depth + 1, seen),
+    ...('code' in error ? { code: sanitize(error.code, depth + 1, seen) } : {}),
+    ...('status' in error ? { status: sanitize(error.status, depth + 1, seen) } : {}),
+    stack: error.stack,
+  };
+}
+
+function isPlainObject(value: unknown): value is LogContext {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+export const logger = new Logger(env.LOG_LEVEL, env.LOG_FORMAT);
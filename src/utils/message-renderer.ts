@@ -0,0 +1,191 @@
+/**
+ * 🖼️ Message Renderer
+ *
+ * Turns a Discord message into the markdown that goes into a fragment.
+ *
+ * `message.content` alone drops everything people attach to bug reports, so
+ * we also render:
+ * - Embeds → title, description and fields as markdown
+ * - Attachments → filename, size, content type and URL
+ * - Small text attachments (.log, .txt, .json, …) → inlined as code blocks
+ * - Stickers → listed by name
+ *
+ * Inlining can be turned off per forum with the `attachments` feature flag.
+ */
+
+import type { Attachment, Embed, Message } from 'discord.js';
+import { env } from '../config/env.js';
+import { isForumFeatureEnabled } from '../config/forums.js';
+import { logger } from './logger.js';
+
+/** Extensions treated as text when Discord doesn't report a content type */
+const TEXT_EXTENSIONS: Record<string, string> = {
+  log: 'log',
+  txt: 'text',
+  json: 'json',
+  md: 'markdown',
+  csv: 'csv',
+  yml: 'yaml',
+  yaml: 'yaml',
+  xml: 'xml',
+  ini: 'ini',
+  toml: 'toml',
+  env: 'text',
+};
+
+/**
+ * Render a message's content, embeds, attachments and stickers as markdown
+ */
+export async function renderMessageContent(message: Message): Promise<string> {
+  const sections: string[] = [];
+
+  if (message.content) {
+    sections.push(message.content);
+  }
+
+  const embeds = message.embeds.map(renderEmbed).filter((embed) => embed.length > 0);
+  if (embeds.length > 0) {
+    sections.push(embeds.join('\n\n'));
+  }
+
+  if (message.attachments.size > 0) {
+    const forumId = message.channel.isThread() ? message.channel.parentId : null;
+    const inline = forumId ? isForumFeatureEnabled(forumId, 'attachments') : true;
+    sections.push(await renderAttachments([...message.attachments.values()], message.id, inline));
+  }
+
+  if (message.stickers.size > 0) {
+    const names = message.stickers.map((sticker) => sticker.name).join(', ');
+    sections.push(`**Stickers:** ${names}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Render an embed as a markdown blockquote
+ */
+function renderEmbed(embed: Embed): string {
+  const lines: string[] = [];
+
+  if (embed.title) {
+    lines.push(embed.url ? `**[${embed.title}](${embed.url})**` : `**${embed.title}**`);
+  }
+  if (embed.description) {
+    lines.push(embed.description);
+  }
+  for (const field of embed.fields) {
+    lines.push(`**${field.name}:** ${field.value}`);
+  }
+
+  if (lines.length === 0) {
+    return '';
+  }
+
+  return lines
+    .join('\n')
+    .split('\n')
+    .map((line) => (line ? `> ${line}` : '>'))
+    .join('\n');
+}
+
+/**
+ * Render the attachment list, followed by inlined text attachments
+ */
+async function renderAttachments(
+  attachments: Attachment[],
+  messageId: string,
+  inline: boolean
+): Promise<string> {
+  let content = '**Attachments:**\n';
+
+  for (const attachment of attachments) {
+    const details = [formatBytes(attachment.size), attachment.contentType]
+      .filter(Boolean)
+      .join(', ');
+    content += `- [${attachment.name}](${attachment.url}) (${details})\n`;
+  }
+
+  if (!inline) {
+    return content.trimEnd();
+  }
+
+  for (const attachment of attachments) {
+    const language = getTextLanguage(attachment);
+    if (!language || attachment.size > env.ATTACHMENT_INLINE_MAX_BYTES) {
+      continue;
+    }
+
+    const text = await fetchAttachmentText(attachment, messageId);
+    if (text === null) {
+      continue;
+    }
+
+    const fence = codeFenceFor(text);
+    content += `\n**${attachment.name}**\n${fence}${language}\n${text.trimEnd()}\n${fence}\n`;
+  }
+
+  return content.trimEnd();
+}
+
+/**
+ * Determine the code block language for a text attachment (null if not text)
+ */
+function getTextLanguage(attachment: Attachment): string | null {
+  const extension = attachment.name.split('.').pop()?.toLowerCase() ?? '';
+  if (extension in TEXT_EXTENSIONS) {
+    return TEXT_EXTENSIONS[extension];
+  }
+
+  const contentType = attachment.contentType?.split(';')[0] ?? '';
+  if (contentType === 'application/json') {
+    return 'json';
+  }
+  if (contentType.startsWith('text/')) {
+    return 'text';
+  }
+
+  return null;
+}
+
+/**
+ * Download a text attachment from Discord's CDN
+ */
+async function fetchAttachmentText(
+  attachment: Attachment,
+  messageId: string
+): Promise<string | null> {
+  try {
+    const response = await fetch(attachment.url, { signal: AbortSignal.timeout(10000) });
+    if (!response.ok) {
+      logger.warn('Failed to download attachment', {
+        messageId,
+        attachment: attachment.name,
+        status: response.status,
+      });
+      return null;
+    }
+    return await response.text();
+  } catch (error) {
+    logger.warn('Error downloading attachment', {
+      messageId,
+      attachment: attachment.name,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Pick a backtick fence longer than any backtick run inside the text
+ */
+function codeFenceFor(text: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  return '`'.repeat(Math.max(3, longestRun + 1));
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
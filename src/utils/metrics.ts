@@ -0,0 +1,193 @@
+/**
+ * 📈 Metrics
+ *
+ * Counters, gauges and histograms for the bot, rendered in the Prometheus
+ * text format on `/metrics` (served by HealthService).
+ *
+ * Deliberately tiny - just enough of the exposition format for what the bot
+ * measures, without pulling in a client library. Metrics are registered when
+ * created; label values are free-form, so keep them low-cardinality (forum
+ * IDs, routes with IDs stripped, status codes).
+ */
+
+type Labels = Record<string, string>;
+
+const METRIC_PREFIX = 'usable_bot_';
+
+/** Every metric, in registration order */
+const registry: Metric[] = [];
+
+abstract class Metric {
+  readonly name: string;
+
+  constructor(
+    name: string,
+    private readonly help: string,
+    private readonly type: 'counter' | 'gauge' | 'histogram'
+  ) {
+    this.name = `${METRIC_PREFIX}${name}`;
+    registry.push(this);
+  }
+
+  render(): string {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples(),
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  protected abstract samples(): string[];
+}
+
+/**
+ * A value that only goes up (e.g. fragments created)
+ */
+export class Counter extends Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels);
+    const current = this.values.get(key);
+    this.values.set(key, { labels, value: (current?.value ?? 0) + amount });
+  }
+
+  protected samples(): string[] {
+    return [...this.values.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+    );
+  }
+}
+
+/**
+ * A value that can go up and down (e.g. gateway ping)
+ */
+export class Gauge extends Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(value: number, labels: Labels = {}): void {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  protected samples(): string[] {
+    return [...this.values.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+    );
+  }
+}
+
+/**
+ * A distribution of observations in cumulative buckets (e.g. request latency)
+ */
+export class Histogram extends Metric {
+  private series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    name: string,
+    help: string,
+    private readonly buckets: number[]
+  ) {
+    super(name, help, 'histogram');
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound && series) series.counts[index]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].flatMap(({ labels, counts, sum, count }) => [
+      ...this.buckets.map(
+        (bound, index) =>
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+      `${this.name}_sum${formatLabels(labels)} ${sum}`,
+      `${this.name}_count${formatLabels(labels)} ${count}`,
+    ]);
+  }
+}
+
+export const fragmentsCreatedTotal = new Counter(
+  'fragments_created_total',
+  'Fragments created in Usable, by forum'
+);
+
+export const fragmentsUpdatedTotal = new Counter(
+  'fragments_updated_total',
+  'Fragment updates written to Usable, by forum'
+);
+
+export const fragmentWritesFailedTotal = new Counter(
+  'fragment_writes_failed_total',
+  'Fragment creates/updates that failed, by forum and operation'
+);
+
+export const usableApiRequestDuration = new Histogram(
+  'usable_api_request_duration_seconds',
+  'Usable API request latency per attempt, by method, route and status',
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+);
+
+export const discordRetriesTotal = new Counter(
+  'discord_api_retries_total',
+  'Discord API calls retried by retryDiscordApi, by outcome (retry, recovered, failed after retrying)'
+);
+
+export const syncThreadsTotal = new Counter(
+  'sync_threads_total',
+  'Threads handled by forum sync runs, by forum and result (processed, failed, skipped)'
+);
+
+export const syncRunsTotal = new Counter('sync_runs_total', 'Forum sync runs, by forum and mode');
+
+export const discordGatewayPing = new Gauge(
+  'discord_gateway_ping_seconds',
+  'Discord gateway heartbeat round trip'
+);
+
+/**
+ * Render every metric in the Prometheus text format
+ */
+export function renderMetrics(): string {
+  return `${registry.map((metric) => metric.render()).join('\n\n')}\n`;
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const formatted = entries.map(
+    ([name, value]) =>
+      `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return `{${formatted.join(',')}}`;
+}
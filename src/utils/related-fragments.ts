@@ -0,0 +1,168 @@
+/**
+ * 🧭 Related Fragments
+ *
+ * Looks for existing fragments that may describe the same problem as a new
+ * forum post, so support can spot duplicates early.
+ *
+ * The post's title and body are reduced to keywords (title words weigh more),
+ * searched in the forum's workspace and fragment type, and only results whose
+ * relevance score reaches RELATED_FRAGMENTS_MIN_SCORE are kept. A failed
+ * search never blocks fragment creation - it just yields no suggestions.
+ */
+
+import { EmbedBuilder } from 'discord.js';
+import { env } from '../config/env.js';
+import { usableApiService } from '../services/usable-api.service.js';
+import type { FragmentSummary } from '../types/usable.js';
+import { getFragmentUrl } from './confirmation-message.js';
+import { logger } from './logger.js';
+
+/** Tag added to fragments that have likely duplicates */
+export const POSSIBLE_DUPLICATE_TAG = 'possible-duplicate';
+
+const MAX_KEYWORDS = 12;
+const MIN_KEYWORD_LENGTH = 3;
+const TITLE_WEIGHT = 3;
+const RELATED_COLOR = 0xfee75c;
+
+const STOP_WORDS = new Set([
+  'about',
+  'after',
+  'again',
+  'also',
+  'and',
+  'any',
+  'are',
+  'because',
+  'been',
+  'but',
+  'can',
+  'cannot',
+  'could',
+  'did',
+  'does',
+  'doesn',
+  'don',
+  'for',
+  'from',
+  'get',
+  'getting',
+  'has',
+  'have',
+  'help',
+  'how',
+  'into',
+  'its',
+  'just',
+  'not',
+  'now',
+  'only',
+  'please',
+  'should',
+  'some',
+  'still',
+  'that',
+  'the',
+  'then',
+  'there',
+  'this',
+  'trying',
+  'was',
+  'what',
+  'when',
+  'where',
+  'which',
+  'while',
+  'why',
+  'will',
+  'with',
+  'would',
+  'you',
+  'your',
+]);
+
+/**
+ * Pick the most telling words from a post's title and body
+ */
+export function extractKeywords(title: string, body: string): string[] {
+  const scores = new Map<string, number>();
+
+  const addWords = (text: string, weight: number) => {
+    const words = text
+      .replace(/```[\s\S]*?```/g, ' ') // code blocks
+      .replace(/https?:\/\/\S+/g, ' ') // links
+      .toLowerCase()
+      .split(/[^a-z0-9]+/);
+
+    for (const word of words) {
+      if (word.length < MIN_KEYWORD_LENGTH || STOP_WORDS.has(word) || /^\d+$/.test(word)) {
+        continue;
+      }
+      scores.set(word, (scores.get(word) ?? 0) + weight);
+    }
+  };
+
+  addWords(title, TITLE_WEIGHT);
+  addWords(body, 1);
+
+  return [...scores.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_KEYWORDS)
+    .map(([word]) => word);
+}
+
+/**
+ * Find existing fragments that look related to a new post
+ */
+export async function findRelatedFragments(post: {
+  title: string;
+  body: string;
+  workspaceId: string;
+  fragmentTypeId: string;
+}): Promise<FragmentSummary[]> {
+  const keywords = extractKeywords(post.title, post.body);
+  if (keywords.length === 0) {
+    return [];
+  }
+
+  const results = await usableApiService.searchFragments({
+    workspaceId: post.workspaceId,
+    query: keywords.join(' '),
+    fragmentTypeId: post.fragmentTypeId,
+    limit: env.RELATED_FRAGMENTS_LIMIT,
+    offset: 0,
+  });
+
+  const related = (results?.fragments ?? []).filter(
+    (fragment) => (fragment.score ?? 0) >= env.RELATED_FRAGMENTS_MIN_SCORE
+  );
+
+  logger.debug('Related fragment search', {
+    keywords,
+    results: results?.fragments.length ?? 0,
+    related: related.length,
+  });
+
+  return related;
+}
+
+/**
+ * Build the "Possibly related" embed posted in the thread
+ */
+export function buildRelatedFragmentsEmbed(
+  fragments: FragmentSummary[],
+  workspaceId: string
+): EmbedBuilder {
+  const lines = fragments.map((fragment) => {
+    const url = getFragmentUrl(workspaceId, fragment.fragmentId);
+    const score = fragment.score !== undefined ? ` _(${Math.round(fragment.score * 100)}%)_` : '';
+    return `• [${fragment.title}](${url})${score}`;
+  });
+
+  return new EmbedBuilder()
+    .setColor(RELATED_COLOR)
+    .setTitle('🧭 Possibly related')
+    .setDescription(
+      `${lines.join('\n')}\n\n_These existing fragments look similar. If this is a duplicate, support can link them._`
+    );
+}
@@ -0,0 +1,170 @@
+/**
+ * 🔎 Search Results
+ *
+ * Renders `/usable-search` results as a paginated embed with prev/next buttons.
+ *
+ * Button custom IDs are limited to 100 characters, too short for the query
+ * and filters, so each search is kept in a short-lived in-memory session and
+ * the buttons only carry `usable-search:<sessionId>:<page>`. Sessions expire
+ * after a while; pressing a button on an expired search asks to run it again.
+ */
+
+import { randomUUID } from 'node:crypto';
+import {
+  ActionRowBuilder,
+  type BaseMessageOptions,
+  ButtonBuilder,
+  ButtonStyle,
+  EmbedBuilder,
+} from 'discord.js';
+import type { SearchFragmentsResponse } from '../types/usable.js';
+import { getFragmentUrl } from './confirmation-message.js';
+
+export const SEARCH_BUTTON_PREFIX = 'usable-search';
+export const SEARCH_PAGE_SIZE = 5;
+
+const SESSION_TTL_MS = 15 * 60 * 1000;
+const SESSION_MAX_ENTRIES = 200;
+const SEARCH_COLOR = 0x5865f2;
+const SUMMARY_PREVIEW_LENGTH = 150;
+const MAX_TAGS_SHOWN = 5;
+
+export interface SearchQuery {
+  workspaceId: string;
+  query: string;
+  fragmentTypeId?: string;
+  tag?: string;
+}
+
+export interface SearchSession extends SearchQuery {
+  /** Only the user who ran the search can page through it */
+  userId: string;
+  expiresAt: number;
+}
+
+/** Searches keyed by session ID */
+const sessions = new Map<string, SearchSession>();
+
+/**
+ * Remember a search so its page buttons can re-run it
+ *
+ * @returns The session ID
+ */
+export function createSearchSession(search: SearchQuery & { userId: string }): string {
+  if (sessions.size >= SESSION_MAX_ENTRIES) {
+    // Evict the oldest entry (Map preserves insertion order)
+    const oldestKey = sessions.keys().next().value;
+    if (oldestKey) sessions.delete(oldestKey);
+  }
+
+  const sessionId = randomUUID().slice(0, 8);
+  sessions.set(sessionId, { ...search, expiresAt: Date.now() + SESSION_TTL_MS });
+  return sessionId;
+}
+
+/**
+ * Look up a search session (null if unknown or expired)
+ */
+export function getSearchSession(sessionId: string): SearchSession | null {
+  const session = sessions.get(sessionId);
+  if (!session || session.expiresAt <= Date.now()) {
+    sessions.delete(sessionId);
+    return null;
+  }
+  return session;
+}
+
+/**
+ * Parse a page button's custom ID
+ */
+export function parseSearchButtonId(customId: string): { sessionId: string; page: number } | null {
+  const [prefix, sessionId, pageText] = customId.split(':');
+  const page = Number(pageText);
+  if (prefix !== SEARCH_BUTTON_PREFIX || !sessionId || !Number.isInteger(page) || page < 0) {
+    return null;
+  }
+  return { sessionId, page };
+}
+
+/**
+ * Build the results embed and page buttons for one page of a search
+ */
+export function buildSearchResultsMessage(
+  sessionId: string,
+  search: SearchQuery,
+  results: SearchFragmentsResponse,
+  page: number
+): BaseMessageOptions {
+  const pageCount = Math.max(1, Math.ceil(results.total / SEARCH_PAGE_SIZE));
+  const filters = [
+    search.fragmentTypeId ? `type \`${search.fragmentTypeId}\`` : null,
+    search.tag ? `tag \`${search.tag}\`` : null,
+  ].filter(Boolean);
+
+  const embed = new EmbedBuilder()
+    .setColor(SEARCH_COLOR)
+    .setTitle(`🔎 Usable search: ${search.query}`.slice(0, 256))
+    .setFooter({
+      text: `Page ${page + 1} of ${pageCount} · ${results.total} result${results.total === 1 ? '' : 's'}`,
+    });
+
+  if (results.fragments.length === 0) {
+    embed.setDescription(
+      `No fragments found${filters.length > 0 ? ` with ${filters.join(' and ')}` : ''}.`
+    );
+    return { embeds: [embed], components: [] };
+  }
+
+  const entries = results.fragments.map((fragment, index) => {
+    const url = getFragmentUrl(search.workspaceId, fragment.fragmentId);
+    const details = [
+      fragment.fragmentType ? `🗂️ ${fragment.fragmentType}` : null,
+      fragment.tags.length > 0 ? `🏷️ ${formatTags(fragment.tags)}` : null,
+    ].filter(Boolean);
+
+    let entry = `**${page * SEARCH_PAGE_SIZE + index + 1}. [${fragment.title}](${url})**`;
+    if (details.length > 0) {
+      entry += `\n${details.join(' · ')}`;
+    }
+    if (fragment.summary) {
+      entry += `\n> ${truncate(fragment.summary.replace(/\s+/g, ' '), SUMMARY_PREVIEW_LENGTH)}`;
+    }
+    return entry;
+  });
+
+  if (filters.length > 0) {
+    entries.unshift(`_Filtered by ${filters.join(' and ')}_`);
+  }
+  embed.setDescription(entries.join('\n\n'));
+
+  const previous = new ButtonBuilder()
+    .setCustomId(`${SEARCH_BUTTON_PREFIX}:${sessionId}:${page - 1}`)
+    .setStyle(ButtonStyle.Secondary)
+    .setLabel('◀ Prev')
+    .setDisabled(page <= 0);
+  const next = new ButtonBuilder()
+    .setCustomId(`${SEARCH_BUTTON_PREFIX}:${sessionId}:${page + 1}`)
+    .setStyle(ButtonStyle.Secondary)
+    .setLabel('Next ▶')
+    .setDisabled(page + 1 >= pageCount);
+
+  return {
+    embeds: [embed],
+    components: [new ActionRowBuilder<ButtonBuilder>().addComponents(previous, next)],
+  };
+}
+
+/**
+ * Show the first few tags as inline code
+ */
+function formatTags(tags: string[]): string {
+  const shown = tags
+    .slice(0, MAX_TAGS_SHOWN)
+    .map((tag) => `\`${tag}\``)
+    .join(' ');
+  return tags.length > MAX_TAGS_SHOWN ? `${shown} +${tags.length - MAX_TAGS_SHOWN}` : shown;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
@@ -0,0 +1,26 @@
+/**
+ * 💾 SQLite Helper
+ *
+ * Opens the embedded SQLite files used for local bot state (thread index,
+ * outbox). Creates the parent directory on first use and enables WAL so
+ * readers don't block the writer.
+ */
+
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+/**
+ * Open (or create) a SQLite database file
+ *
+ * Pass `:memory:` for a throwaway in-memory database.
+ */
+export function openDatabase(path: string): Database {
+  if (path !== ':memory:') {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  const db = new Database(path, { create: true });
+  db.run('PRAGMA journal_mode = WAL');
+  return db;
+}
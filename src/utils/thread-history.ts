@@ -0,0 +1,202 @@
+/**
+ * 📜 Thread History
+ *
+ * Walks a thread's full message history instead of a single 100-message page.
+ *
+ * - Pages are fetched oldest → newest with `after` cursors, starting at the
+ *   beginning of the thread, up to a ceiling
+ * - A full page after a given cursor doesn't change when new replies arrive,
+ *   so full pages are cached (until an edit or deletion invalidates them);
+ *   only the last, partial page is refetched on every call
+ * - When the ceiling cuts the walk short, the newest pages are fetched
+ *   separately so the end of the thread is never lost
+ *
+ * `truncateMessages` then keeps the starter post + first N + last M messages
+ * and reports how many were left out in between.
+ */
+
+import type { Message, ThreadChannel } from 'discord.js';
+import { env } from '../config/env.js';
+import { logger } from './logger.js';
+
+/** Discord's maximum page size for message fetches */
+const PAGE_SIZE = 100;
+const PAGE_CACHE_TTL_MS = 10 * 60 * 1000;
+const PAGE_CACHE_MAX_ENTRIES = 500;
+
+interface CachedPage {
+  messages: Message[];
+  expiresAt: number;
+}
+
+/** Cursor for the first page - every message ID sorts after it */
+const THREAD_START = '0';
+
+/** Full pages keyed by `${threadId}:${afterCursor}` */
+const pageCache = new Map<string, CachedPage>();
+
+export interface ThreadHistory {
+  /** Messages in chronological order (oldest first) */
+  messages: Message[];
+  /** Whether the walk reached the start of the thread */
+  complete: boolean;
+  /** Best estimate of the total number of messages in the thread */
+  totalCount: number;
+}
+
+export interface TruncatedMessages {
+  /** Messages that were kept, in chronological order */
+  head: Message[];
+  tail: Message[];
+  /** Number of messages left out between head and tail */
+  omittedCount: number;
+}
+
+/**
+ * Fetch a thread's message history, oldest pages first, up to `maxMessages`
+ */
+export async function fetchThreadHistory(
+  thread: ThreadChannel,
+  maxMessages = env.THREAD_HISTORY_MAX_MESSAGES
+): Promise<ThreadHistory> {
+  const byId = new Map<string, Message>();
+  let after = THREAD_START;
+  let complete = false;
+
+  while (byId.size < maxMessages) {
+    const page = await fetchPage(thread, after);
+    for (const message of page) {
+      byId.set(message.id, message);
+    }
+
+    if (page.length < PAGE_SIZE) {
+      complete = true;
+      break;
+    }
+
+    // Pages are sorted oldest first, so the last message is the next cursor
+    after = page[page.length - 1].id;
+  }
+
+  if (!complete) {
+    await fetchLatest(thread, byId);
+  }
+
+  const messages = [...byId.values()].sort((a, b) => a.createdTimestamp - b.createdTimestamp);
+  const totalCount = complete
+    ? messages.length
+    : Math.max(messages.length, (thread.messageCount ?? 0) + 1);
+
+  logger.debug('Fetched thread history', {
+    threadId: thread.id,
+    fetched: messages.length,
+    complete,
+    totalCount,
+  });
+
+  return { messages, complete, totalCount };
+}
+
+/**
+ * Keep the starter post, the first `keepFirst` and the last `keepLast` messages
+ *
+ * `totalCount` lets callers account for messages that were never fetched
+ * (when the history walk hit its ceiling).
+ */
+export function truncateMessages(
+  messages: Message[],
+  options: { keepFirst: number; keepLast: number; totalCount?: number; starterId?: string }
+): TruncatedMessages {
+  const { keepFirst, keepLast } = options;
+  const totalCount = Math.max(options.totalCount ?? messages.length, messages.length);
+  const unfetched = totalCount - messages.length;
+
+  if (messages.length <= keepFirst + keepLast + 1 && unfetched === 0) {
+    return { head: messages, tail: [], omittedCount: 0 };
+  }
+
+  const starterIndex = options.starterId
+    ? messages.findIndex((message) => message.id === options.starterId)
+    : 0;
+  const headEnd = Math.min(messages.length, Math.max(starterIndex, 0) + 1 + keepFirst);
+  const tailStart = Math.max(headEnd, messages.length - keepLast);
+
+  const head = messages.slice(0, headEnd);
+  const tail = messages.slice(tailStart);
+
+  return {
+    head,
+    tail,
+    omittedCount: tailStart - headEnd + unfetched,
+  };
+}
+
+/**
+ * Drop cached pages for a thread (e.g. after an edit or deletion)
+ */
+export function invalidateThreadHistory(threadId: string): void {
+  for (const key of pageCache.keys()) {
+    if (key.startsWith(`${threadId}:`)) {
+      pageCache.delete(key);
+    }
+  }
+}
+
+/**
+ * Fetch one page of messages after `after`
+ *
+ * Only full pages are cached: a partial page grows with every new reply.
+ */
+async function fetchPage(thread: ThreadChannel, after: string): Promise<Message[]> {
+  const cacheKey = `${thread.id}:${after}`;
+
+  const cached = pageCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.messages;
+  }
+  pageCache.delete(cacheKey);
+
+  const fetched = await thread.messages.fetch({ limit: PAGE_SIZE, after });
+  const messages = [...fetched.values()].sort((a, b) => a.createdTimestamp - b.createdTimestamp);
+
+  if (messages.length === PAGE_SIZE) {
+    cachePage(cacheKey, messages);
+  }
+
+  return messages;
+}
+
+/**
+ * Fetch the newest messages, walking back until `THREAD_HISTORY_KEEP_LAST`
+ * are covered or the walk meets messages already fetched
+ */
+async function fetchLatest(thread: ThreadChannel, byId: Map<string, Message>): Promise<void> {
+  const wanted = Math.max(PAGE_SIZE, env.THREAD_HISTORY_KEEP_LAST);
+  let before: string | undefined;
+  let fetchedCount = 0;
+
+  while (fetchedCount < wanted) {
+    const fetched = await thread.messages.fetch({ limit: PAGE_SIZE, before });
+    const page = [...fetched.values()].sort((a, b) => a.createdTimestamp - b.createdTimestamp);
+    const overlaps = page.some((message) => byId.has(message.id));
+
+    for (const message of page) {
+      byId.set(message.id, message);
+    }
+    fetchedCount += page.length;
+
+    if (page.length < PAGE_SIZE || overlaps) {
+      break;
+    }
+    before = page[0].id;
+  }
+}
+
+function cachePage(key: string, messages: Message[]): void {
+  if (pageCache.size >= PAGE_CACHE_MAX_ENTRIES) {
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    const oldestKey = pageCache.keys().next().value;
+    if (oldestKey) pageCache.delete(oldestKey);
+  }
+  pageCache.set(key, { messages, expiresAt: Date.now() + PAGE_CACHE_TTL_MS });
+}
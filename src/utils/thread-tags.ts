@@ -0,0 +1,74 @@
+/**
+ * 🏷️ Thread Tags
+ *
+ * Builds the Usable tag set for a forum thread.
+ *
+ * Tags are sent as a full replacement on every update, so creation,
+ * retroactive sync and updates all use this builder and produce identical
+ * tag sets for the same thread state:
+ * - Base tags from Discord context (`discord`, `server:*`, `channel:*`)
+ * - Applied forum tags → `discord-tag:<name>`
+ * - Lifecycle state → `discord-status:archived|locked|deleted` (only for
+ *   forums with the `lifecycle` feature enabled)
+ * - The forum's configured extra tags and `repo:<repository>`
+ * - Tags recorded for the thread in the index (e.g. `possible-duplicate`)
+ */
+
+import type { ThreadChannel } from 'discord.js';
+import { getForumConfig } from '../config/forums.js';
+import { threadIndexService } from '../services/thread-index.service.js';
+import { usableApiService } from '../services/usable-api.service.js';
+import { GUILD_FORUM } from '../types/discord.js';
+
+export type ThreadLifecycleStatus = 'archived' | 'locked' | 'deleted';
+
+/**
+ * Get the lifecycle statuses that currently apply to a thread
+ */
+export function getThreadStatuses(thread: ThreadChannel, deleted = false): ThreadLifecycleStatus[] {
+  const statuses: ThreadLifecycleStatus[] = [];
+
+  if (thread.archived) {
+    statuses.push('archived');
+  }
+  if (thread.locked) {
+    statuses.push('locked');
+  }
+  if (deleted) {
+    statuses.push('deleted');
+  }
+
+  return statuses;
+}
+
+/**
+ * Build the complete tag set for a thread
+ */
+export function buildThreadTags(
+  thread: ThreadChannel,
+  statuses: ThreadLifecycleStatus[] = getThreadStatuses(thread)
+): string[] {
+  const forumConfig = thread.parentId ? getForumConfig(thread.parentId) : null;
+  const forumChannel = thread.parent?.type === GUILD_FORUM ? thread.parent : null;
+  const discordTags = thread.appliedTags
+    .map((tagId) => {
+      const tag = forumChannel?.availableTags.find((t) => t.id === tagId);
+      return tag ? `discord-tag:${tag.name.toLowerCase().replace(/\s+/g, '-')}` : null;
+    })
+    .filter((tag): tag is string => tag !== null);
+
+  return [
+    ...usableApiService.generateTags({
+      guildName: thread.guild.name,
+      channelName: thread.parent?.name,
+      threadName: thread.name,
+    }),
+    ...discordTags,
+    ...(forumConfig?.features.lifecycle
+      ? statuses.map((status) => `discord-status:${status}`)
+      : []),
+    ...(forumConfig?.tags ?? []),
+    ...(threadIndexService.get(thread.id)?.extraTags ?? []),
+    `repo:${forumConfig?.repository ?? 'usable-discord-bot'}`,
+  ];
+}
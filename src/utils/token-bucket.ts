@@ -0,0 +1,65 @@
+/**
+ * 🪣 Token Bucket
+ *
+ * Client-side rate limiter: up to `capacity` requests can go out in a burst,
+ * after which requests are released at `refillPerSecond`.
+ *
+ * `pause()` blocks every caller until a point in time - used when the server
+ * answers 429 so the whole client backs off, not just the failing call.
+ */
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private readonly capacity: number;
+  private readonly refillPerSecond: number;
+
+  constructor(capacity: number, refillPerSecond: number) {
+    this.capacity = capacity;
+    this.refillPerSecond = refillPerSecond;
+    this.tokens = capacity;
+  }
+
+  /**
+   * Wait until a token is available and take it
+   *
+   * @returns How long the caller had to wait, in milliseconds
+   */
+  async take(): Promise<number> {
+    const startedAt = Date.now();
+
+    for (;;) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return Date.now() - startedAt;
+      }
+
+      await sleep(Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000));
+    }
+  }
+
+  /**
+   * Block all callers for `ms` milliseconds
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private refill(now: number): void {
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,65 @@
+/**
+ * ✍️ Webhook Signatures
+ *
+ * Verifies that an inbound Usable webhook was sent by Usable and isn't a
+ * replay of an old request.
+ *
+ * Usable signs `<timestamp>.<raw body>` with HMAC-SHA256 using the shared
+ * secret and sends:
+ * - `X-Usable-Timestamp`: Unix time in seconds
+ * - `X-Usable-Signature`: `sha256=<hex digest>`
+ *
+ * Signing the timestamp together with the body means an old request can't be
+ * replayed with a fresh timestamp; requests outside the tolerance window are
+ * rejected, and event IDs seen within the window are deduplicated by the
+ * caller.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+export const SIGNATURE_HEADER = 'x-usable-signature';
+export const TIMESTAMP_HEADER = 'x-usable-timestamp';
+
+const SIGNATURE_PREFIX = 'sha256=';
+
+export type SignatureCheck = 'valid' | 'missing' | 'expired' | 'invalid';
+
+/**
+ * Compute the signature header value for a payload
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `${SIGNATURE_PREFIX}${digest}`;
+}
+
+/**
+ * Check a webhook's signature and timestamp
+ */
+export function verifyWebhookSignature(request: {
+  secret: string;
+  body: string;
+  timestamp: string | null;
+  signature: string | null;
+  toleranceSeconds: number;
+  now?: number;
+}): SignatureCheck {
+  const { secret, body, timestamp, signature, toleranceSeconds, now = Date.now() } = request;
+
+  if (!timestamp || !signature) {
+    return 'missing';
+  }
+
+  const sentAt = Number(timestamp);
+  if (!Number.isInteger(sentAt) || Math.abs(now / 1000 - sentAt) > toleranceSeconds) {
+    return 'expired';
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  // timingSafeEqual throws on length mismatch
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return 'invalid';
+  }
+
+  return 'valid';
+}